@@ -4,7 +4,10 @@ import type { ProjectData } from '@/types/database'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { Notification } from '@/components/Notification'
 import { useNotification } from '@/hooks/useNotification'
+import { useUpdateQueue, formatElapsed } from '@/hooks/useUpdateQueue'
+import { QueueStatusBadge } from '@/components/QueueStatusBadge'
 import { EngineeringForm } from '@/forms/EngineeringForm'
+import { LongLeadForm } from '@/forms/LongLeadForm'
 import { QaqcHseForm } from '@/forms/QaqcHseForm'
 import { ActualResourcesForm } from '@/forms/ActualResourcesForm'
 import { DynamicActualDataForm } from '@/forms/DynamicActualDataForm'
@@ -16,10 +19,13 @@ import { ReferenceDataForm } from '@/forms/ReferenceDataForm'
 import { P6ActivityOutputForm } from '@/forms/P6ActivityOutputForm'
 import { P6ActivityUpdatesForm } from '@/forms/P6ActivityUpdatesForm'
 import { P6ProjectMappingForm } from '@/forms/P6ProjectMappingForm'
+import { XerUploadsForm } from '@/forms/XerUploadsForm'
+import { P6ScheduleVarianceForm } from '@/forms/P6ScheduleVarianceForm'
 import { PhotoUploadForm } from '@/forms/PhotoUploadForm'
 
 type TabKey =
   | 'engineering'
+  | 'longlead'
   | 'qaqc'
   | 'resources'
   | 'dynamic'
@@ -32,6 +38,8 @@ type TabKey =
   | 'referencedata'
   | 'p6activityoutput'
   | 'p6activityupdates'
+  | 'p6variance'
+  | 'xeruploads'
   | 'p6projectmapping'
   | 'photos'
 
@@ -52,6 +60,15 @@ const tabs: Tab[] = [
       </svg>
     ),
   },
+  {
+    key: 'longlead',
+    label: 'Long-Lead Items',
+    icon: (
+      <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
   {
     key: 'qaqc',
     label: 'QAQC / HSE',
@@ -144,6 +161,26 @@ const tabs: Tab[] = [
       </svg>
     ),
   },
+  {
+    key: 'p6variance',
+    label: 'Schedule Variance',
+    group: 'P6 Scheduler',
+    icon: (
+      <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+      </svg>
+    ),
+  },
+  {
+    key: 'xeruploads',
+    label: 'XER Uploads',
+    group: 'P6 Scheduler',
+    icon: (
+      <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+    ),
+  },
   {
     key: 'p6projectmapping',
     label: 'Project Mapping',
@@ -250,12 +287,19 @@ function App() {
   }
 
   const selectedProject = projectInfo.find(p => p.id === selectedProjectId)
+  const { latest: latestQueueEntry, now: queueNow } = useUpdateQueue(
+    view === 'app' ? selectedProject?.textProjectId || '' : '',
+    selectedSchemaName,
+    1
+  )
 
   const renderTabContent = () => {
     const projectTextId = selectedProject?.textProjectId || ''
     switch (activeTab) {
       case 'engineering':
         return <EngineeringForm projectId={selectedProjectId} schemaName={selectedSchemaName} />
+      case 'longlead':
+        return <LongLeadForm projectId={selectedProjectId} projectTextId={projectTextId} schemaName={selectedSchemaName} />
       case 'qaqc':
         return <QaqcHseForm projectId={selectedProjectId} schemaName={selectedSchemaName} />
       case 'resources':
@@ -276,6 +320,10 @@ function App() {
         return <P6ActivityOutputForm projectTextId={projectTextId} schemaName={selectedSchemaName} />
       case 'p6activityupdates':
         return <P6ActivityUpdatesForm projectTextId={projectTextId} schemaName={selectedSchemaName} />
+      case 'p6variance':
+        return <P6ScheduleVarianceForm projectTextId={projectTextId} schemaName={selectedSchemaName} />
+      case 'xeruploads':
+        return <XerUploadsForm projectTextId={projectTextId} schemaName={selectedSchemaName} />
       case 'p6projectmapping':
         return <P6ProjectMappingForm />
       case 'photos':
@@ -486,7 +534,17 @@ function App() {
                 <span className="text-xs text-gray-500">Project:</span>
                 <span className="text-sm font-semibold text-gray-900">{selectedProject?.projectname || '—'}</span>
               </div>
-              <div className="ml-auto">
+              <div className="ml-auto flex items-center gap-3">
+                {latestQueueEntry && (
+                  <div
+                    className="flex items-center gap-1.5 text-xs"
+                    title={latestQueueEntry.execution_id ? `Execution ${latestQueueEntry.execution_id}` : undefined}
+                  >
+                    <span className="text-gray-500">Last P6 run:</span>
+                    <QueueStatusBadge status={latestQueueEntry.status} />
+                    <span className="text-gray-400 tabular-nums">{formatElapsed(latestQueueEntry, queueNow)}</span>
+                  </div>
+                )}
                 <button
                   onClick={() => setShowRunUpdateConfirm(true)}
                   disabled={runUpdateLoading || !selectedProject?.textProjectId}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { DynamicActualData } from '@/types/database'
+import { Modal } from '@/components/Modal'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+
+interface ActivityProgressHistoryProps {
+  activityId: string | null
+  projectId: string
+  schemaName: string
+  onClose: () => void
+}
+
+type HistoryRow = Pick<DynamicActualData, 'dgt_weeknum' | 'dgt_datadate' | 'dgt_actualstart' | 'dgt_actualfinish' | 'dgt_pctcomplete'>
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+/** Every weekly snapshot of one activity from dbp6_0006_progressdata, oldest week first */
+export function ActivityProgressHistory({ activityId, projectId, schemaName, onClose }: ActivityProgressHistoryProps) {
+  const [rows, setRows] = useState<HistoryRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!activityId) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    schemaClient(schemaName)
+      .from('dbp6_0006_progressdata')
+      .select('dgt_weeknum, dgt_datadate, dgt_actualstart, dgt_actualfinish, dgt_pctcomplete')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .eq('dgt_activityid', activityId)
+      .order('dgt_weeknum', { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) setError(error.message)
+        else setRows((data || []) as HistoryRow[])
+        setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [activityId, projectId, schemaName])
+
+  return (
+    <Modal isOpen={!!activityId} onClose={onClose} title={`Progress history — ${activityId ?? ''}`}>
+      {loading ? (
+        <LoadingSpinner />
+      ) : error ? (
+        <p className="text-sm text-red-600">Failed to fetch history: {error}</p>
+      ) : rows.length === 0 ? (
+        <p className="py-4 text-center text-sm text-gray-500">No weekly snapshots recorded for this activity.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0">
+              <tr className="bg-gray-50 border-b border-gray-200">
+                {['Week #', 'Data Date', 'Actual Start', 'Actual Finish', '% Complete', 'Change'].map(label => (
+                  <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((r, i) => {
+                const prev = i > 0 ? rows[i - 1].dgt_pctcomplete : null
+                const delta = r.dgt_pctcomplete != null && prev != null ? Math.round((r.dgt_pctcomplete - prev) * 10) / 10 : null
+                return (
+                  <tr key={r.dgt_weeknum ?? i} className="hover:bg-gray-50">
+                    <td className="px-3 py-1.5 text-gray-900">{r.dgt_weeknum ?? '-'}</td>
+                    <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">{formatDate(r.dgt_datadate)}</td>
+                    <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">{formatDate(r.dgt_actualstart)}</td>
+                    <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">{formatDate(r.dgt_actualfinish)}</td>
+                    <td className="px-3 py-1.5 font-mono text-gray-700">{r.dgt_pctcomplete != null ? `${r.dgt_pctcomplete.toFixed(1)}%` : '-'}</td>
+                    <td className={`px-3 py-1.5 font-mono ${delta == null || delta === 0 ? 'text-gray-400' : delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {delta == null ? '-' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,263 @@
+import { useState } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { AocAction, AocActionPriority, AocActionStatus } from '@/types/database'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import {
+  AOC_ACTION_STATUSES,
+  AOC_ACTION_STATUS_CLASSES,
+  AOC_ACTION_STATUS_LABELS,
+  AOC_ACTION_PRIORITIES,
+  AOC_PRIORITY_CLASSES,
+  AOC_PRIORITY_LABELS,
+  isActionOverdue,
+} from '@/utils/aocActions'
+
+interface AocActionItemsProps {
+  aocId: string
+  projectId: string
+  schemaName: string
+  actions: AocAction[]
+  today: string
+  onChanged: () => void
+  onNotify: (type: 'success' | 'error', message: string) => void
+}
+
+interface ActionDraft {
+  description: string
+  owner: string
+  due_date: string
+  priority: AocActionPriority
+  status: AocActionStatus
+}
+
+const EMPTY_DRAFT: ActionDraft = { description: '', owner: '', due_date: '', priority: 'medium', status: 'open' }
+
+const draftInputCls = 'w-full px-1.5 py-1 text-xs border border-amber-300 rounded focus:outline-none focus:ring-1 focus:ring-amber-500'
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+// closed_at follows the status: stamped when an action is done, cleared if it is reopened
+const closedAtFor = (status: AocActionStatus, previous: AocAction | null) =>
+  status === 'done' ? (previous?.status === 'done' ? previous.closed_at : new Date().toISOString()) : null
+
+/** Action items of one area of concern (dbp6_aoc_action), edited inline beneath its row */
+export function AocActionItems({ aocId, projectId, schemaName, actions, today, onChanged, onNotify }: AocActionItemsProps) {
+  const supabase = schemaClient(schemaName)
+  const [addingRow, setAddingRow] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ActionDraft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const sorted = [...actions].sort((a, b) =>
+    Number(a.status === 'done') - Number(b.status === 'done') ||
+    (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999')
+  )
+
+  const toPayload = (previous: AocAction | null) => ({
+    description: draft.description.trim(),
+    owner: draft.owner.trim() || null,
+    due_date: draft.due_date || null,
+    priority: draft.priority,
+    status: draft.status,
+    closed_at: closedAtFor(draft.status, previous),
+  })
+
+  const handleAdd = async () => {
+    if (!draft.description.trim()) return
+    setSaving(true)
+    const { error } = await supabase
+      .from('dbp6_aoc_action')
+      .insert({ ...toPayload(null), aoc_id: aocId, project_id: projectId } as never)
+    if (error) {
+      onNotify('error', 'Failed to add action: ' + error.message)
+    } else {
+      onNotify('success', 'Action added')
+      setAddingRow(false)
+      onChanged()
+    }
+    setSaving(false)
+  }
+
+  const startEdit = (action: AocAction) => {
+    setAddingRow(false)
+    setEditingId(action.id)
+    setDraft({
+      description: action.description,
+      owner: action.owner ?? '',
+      due_date: action.due_date?.slice(0, 10) ?? '',
+      priority: action.priority,
+      status: action.status,
+    })
+  }
+
+  const handleSaveEdit = async () => {
+    const previous = actions.find(a => a.id === editingId) ?? null
+    if (!previous || !draft.description.trim()) return
+    setSaving(true)
+    const { error } = await supabase
+      .from('dbp6_aoc_action')
+      .update(toPayload(previous) as never)
+      .eq('id', previous.id)
+    if (error) {
+      onNotify('error', 'Failed to update action: ' + error.message)
+    } else {
+      onNotify('success', 'Action updated')
+      setEditingId(null)
+      onChanged()
+    }
+    setSaving(false)
+  }
+
+  const handleStatusChange = async (action: AocAction, status: AocActionStatus) => {
+    const { error } = await supabase
+      .from('dbp6_aoc_action')
+      .update({ status, closed_at: closedAtFor(status, action) } as never)
+      .eq('id', action.id)
+    if (error) onNotify('error', 'Failed to update action: ' + error.message)
+    else onChanged()
+  }
+
+  const handleDelete = async () => {
+    if (!deleteConfirm) return
+    setDeleting(true)
+    const { error } = await supabase.from('dbp6_aoc_action').delete().eq('id', deleteConfirm)
+    if (error) {
+      onNotify('error', 'Failed to delete action: ' + error.message)
+    } else {
+      onNotify('success', 'Action deleted')
+      onChanged()
+    }
+    setDeleting(false)
+    setDeleteConfirm(null)
+  }
+
+  const draftCells = (onSave: () => void, onCancel: () => void) => {
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter') onSave()
+      if (e.key === 'Escape') onCancel()
+    }
+    return (
+      <>
+        <td className="px-2 py-1.5">
+          <input autoFocus type="text" value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))} onKeyDown={handleKeyDown} placeholder="Action" className={draftInputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <input type="text" value={draft.owner} onChange={e => setDraft(d => ({ ...d, owner: e.target.value }))} onKeyDown={handleKeyDown} placeholder="Owner" className={draftInputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <input type="date" value={draft.due_date} onChange={e => setDraft(d => ({ ...d, due_date: e.target.value }))} onKeyDown={handleKeyDown} className={draftInputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <select value={draft.priority} onChange={e => setDraft(d => ({ ...d, priority: e.target.value as AocActionPriority }))} className={draftInputCls}>
+            {AOC_ACTION_PRIORITIES.map(p => <option key={p} value={p}>{AOC_PRIORITY_LABELS[p]}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-1.5">
+          <select value={draft.status} onChange={e => setDraft(d => ({ ...d, status: e.target.value as AocActionStatus }))} className={draftInputCls}>
+            {AOC_ACTION_STATUSES.map(s => <option key={s} value={s}>{AOC_ACTION_STATUS_LABELS[s]}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-1.5 text-xs text-gray-400">-</td>
+        <td className="px-2 py-1.5">
+          <div className="flex items-center gap-0.5">
+            <button onClick={onSave} disabled={saving || !draft.description.trim()} title="Save" className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-40 transition-colors">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </button>
+            <button onClick={onCancel} title="Cancel" className="p-1 text-gray-400 hover:bg-gray-100 rounded transition-colors">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </td>
+      </>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-xs bg-white border border-gray-200 rounded">
+        <thead className="bg-gray-50">
+          <tr>
+            {['Action', 'Owner', 'Due', 'Priority', 'Status', 'Closed', ''].map(label => (
+              <th key={label} className="px-2 py-1.5 text-left font-medium text-gray-500 uppercase tracking-wide whitespace-nowrap">{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {sorted.length === 0 && !addingRow && (
+            <tr>
+              <td colSpan={7} className="px-2 py-3 text-center text-gray-400">No actions yet</td>
+            </tr>
+          )}
+          {sorted.map(action => {
+            if (editingId === action.id) {
+              return <tr key={action.id} className="bg-amber-50">{draftCells(handleSaveEdit, () => setEditingId(null))}</tr>
+            }
+            const overdue = isActionOverdue(action, today)
+            return (
+              <tr key={action.id} className={overdue ? 'bg-red-50' : action.status === 'done' ? 'text-gray-400' : ''}>
+                <td className="px-2 py-1.5 text-gray-900 max-w-sm break-words">{action.description}</td>
+                <td className="px-2 py-1.5 text-gray-700 whitespace-nowrap">{action.owner || '-'}</td>
+                <td className={`px-2 py-1.5 whitespace-nowrap ${overdue ? 'text-red-700 font-semibold' : 'text-gray-700'}`}>
+                  {formatDate(action.due_date)}
+                  {overdue && <span className="ml-1">(overdue)</span>}
+                </td>
+                <td className="px-2 py-1.5">
+                  <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${AOC_PRIORITY_CLASSES[action.priority]}`}>{AOC_PRIORITY_LABELS[action.priority]}</span>
+                </td>
+                <td className="px-2 py-1.5">
+                  <select
+                    value={action.status}
+                    onChange={e => handleStatusChange(action, e.target.value as AocActionStatus)}
+                    className={`px-1.5 py-0.5 rounded text-xs font-medium border-0 focus:ring-1 focus:ring-blue-400 ${AOC_ACTION_STATUS_CLASSES[action.status]}`}
+                  >
+                    {AOC_ACTION_STATUSES.map(s => <option key={s} value={s}>{AOC_ACTION_STATUS_LABELS[s]}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-1.5 text-gray-500 whitespace-nowrap">{formatDate(action.closed_at)}</td>
+                <td className="px-2 py-1.5 whitespace-nowrap">
+                  <div className="flex items-center gap-0.5">
+                    <button onClick={() => startEdit(action)} title="Edit action" className="p-1 text-blue-500 rounded">
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                    </button>
+                    <button onClick={() => setDeleteConfirm(action.id)} title="Delete action" className="p-1 text-red-500 rounded">
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+          {addingRow && <tr className="bg-blue-50">{draftCells(handleAdd, () => setAddingRow(false))}</tr>}
+        </tbody>
+      </table>
+      {!addingRow && (
+        <button
+          onClick={() => { setEditingId(null); setDraft(EMPTY_DRAFT); setAddingRow(true) }}
+          className="text-xs font-medium text-blue-600 hover:underline"
+        >
+          + Add action
+        </button>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleteConfirm}
+        title="Delete Action"
+        message="Delete this action item? This cannot be undone."
+        confirmLabel="Delete"
+        loading={deleting}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteConfirm(null)}
+      />
+    </div>
+  )
+}
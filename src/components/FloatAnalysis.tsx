@@ -0,0 +1,162 @@
+import { useMemo } from 'react'
+import type { P6ActivityOutput } from '@/types/database'
+import { floatBand, parseFloatDays, FLOAT_BAND_LABELS } from '@/utils/float'
+import type { FloatBand } from '@/utils/float'
+
+interface FloatAnalysisProps {
+  rows: P6ActivityOutput[]
+  previousRows: P6ActivityOutput[]
+  previousLabel: string | null
+  nearThreshold: number
+  highThreshold: number
+  selectedBand: FloatBand | ''
+  onSelectBand: (band: FloatBand | '') => void
+}
+
+const BINS: { label: string; test: (d: number) => boolean }[] = [
+  { label: '< -20', test: d => d < -20 },
+  { label: '-20 to -11', test: d => d >= -20 && d < -10 },
+  { label: '-10 to -1', test: d => d >= -10 && d < 0 },
+  { label: '0', test: d => d === 0 },
+  { label: '1–5', test: d => d > 0 && d <= 5 },
+  { label: '6–10', test: d => d > 5 && d <= 10 },
+  { label: '11–20', test: d => d > 10 && d <= 20 },
+  { label: '21–40', test: d => d > 20 && d <= 40 },
+  { label: '41–60', test: d => d > 40 && d <= 60 },
+  { label: '> 60', test: d => d > 60 },
+]
+
+const BAND_ORDER: FloatBand[] = ['critical', 'near', 'normal', 'high']
+
+const BAND_COLOURS: Record<FloatBand, { bar: string; badge: string }> = {
+  critical: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-700' },
+  near: { bar: 'bg-amber-400', badge: 'bg-amber-100 text-amber-700' },
+  normal: { bar: 'bg-blue-400', badge: 'bg-blue-100 text-blue-700' },
+  high: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-700' },
+}
+
+const CHART_H = 160
+
+export function FloatAnalysis({
+  rows,
+  previousRows,
+  previousLabel,
+  nearThreshold,
+  highThreshold,
+  selectedBand,
+  onSelectBand,
+}: FloatAnalysisProps) {
+  const { bins, bandCounts, noFloat } = useMemo(() => {
+    const bins = BINS.map(b => ({ label: b.label, counts: { critical: 0, near: 0, normal: 0, high: 0 } as Record<FloatBand, number>, total: 0 }))
+    const bandCounts: Record<FloatBand, number> = { critical: 0, near: 0, normal: 0, high: 0 }
+    let noFloat = 0
+    for (const r of rows) {
+      const days = parseFloatDays(r.total_float)
+      const band = floatBand(days, nearThreshold, highThreshold)
+      if (days == null || !band) { noFloat++; continue }
+      bandCounts[band]++
+      const idx = BINS.findIndex(b => b.test(days))
+      if (idx >= 0) { bins[idx].counts[band]++; bins[idx].total++ }
+    }
+    return { bins, bandCounts, noFloat }
+  }, [rows, nearThreshold, highThreshold])
+
+  const maxBin = Math.max(1, ...bins.map(b => b.total))
+
+  // Activities whose total float dropped since the previous weekly output, worst first
+  const worsened = useMemo(() => {
+    const previous = new Map(previousRows.map(r => [r.activity_id, parseFloatDays(r.total_float)]))
+    return rows
+      .map(r => {
+        const now = parseFloatDays(r.total_float)
+        const before = previous.get(r.activity_id) ?? null
+        return { row: r, now, before, delta: now != null && before != null ? Math.round((now - before) * 100) / 100 : null }
+      })
+      .filter((x): x is typeof x & { delta: number; now: number; before: number } => x.delta != null && x.delta < 0)
+      .sort((a, b) => a.delta - b.delta)
+  }, [rows, previousRows])
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {BAND_ORDER.map(band => (
+          <button
+            key={band}
+            onClick={() => onSelectBand(selectedBand === band ? '' : band)}
+            className={`text-left border rounded-lg px-4 py-3 hover:bg-gray-50 ${selectedBand === band ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}
+          >
+            <p className="flex items-center gap-1.5 text-xs text-gray-500 font-medium uppercase tracking-wide">
+              <span className={`w-2 h-2 rounded-full ${BAND_COLOURS[band].bar}`} />
+              {FLOAT_BAND_LABELS[band]}
+            </p>
+            <p className="text-xl font-semibold text-gray-900">{bandCounts[band]}</p>
+          </button>
+        ))}
+        <div className="border border-gray-200 rounded-lg px-4 py-3">
+          <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">No float value</p>
+          <p className="text-xl font-semibold text-gray-400">{noFloat}</p>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Total float distribution (days)</p>
+        <div className="flex items-end gap-2 border-b border-gray-200" style={{ height: CHART_H + 20 }}>
+          {bins.map(b => (
+            <div key={b.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${b.label}: ${b.total} activities`}>
+              <span className="text-xs text-gray-500 mb-0.5">{b.total || ''}</span>
+              <div className="w-full flex flex-col-reverse rounded-t overflow-hidden" style={{ height: (b.total / maxBin) * CHART_H }}>
+                {BAND_ORDER.map(band => b.counts[band] > 0 && (
+                  <div key={band} className={BAND_COLOURS[band].bar} style={{ height: `${(b.counts[band] / b.total) * 100}%` }} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-1">
+          {bins.map(b => <span key={b.label} className="flex-1 text-center text-xs text-gray-500 whitespace-nowrap">{b.label}</span>)}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">
+          Float worsened since previous output
+          {previousLabel && <span className="ml-1 font-normal text-gray-400">({previousLabel})</span>}
+        </p>
+        {previousRows.length === 0 ? (
+          <p className="text-sm text-gray-400">No previous weekly output is available to compare against.</p>
+        ) : worsened.length === 0 ? (
+          <p className="text-sm text-gray-400">No activity lost float since the previous output.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0">
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  {['Activity ID', 'Activity Name', 'Previous', 'Current', 'Change', 'Band'].map(label => (
+                    <th key={label} className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {worsened.map(w => {
+                  const band = floatBand(w.now, nearThreshold, highThreshold)
+                  return (
+                    <tr key={w.row.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-2 font-mono text-gray-900 whitespace-nowrap">{w.row.activity_id}</td>
+                      <td className="px-3 py-2 text-gray-700">{w.row.activity_name || '-'}</td>
+                      <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{w.before}</td>
+                      <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{w.now}</td>
+                      <td className="px-3 py-2 font-medium text-red-600 whitespace-nowrap">{w.delta}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {band && <span className={`inline-flex px-1.5 py-0.5 rounded font-medium ${BAND_COLOURS[band].badge}`}>{FLOAT_BAND_LABELS[band]}</span>}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useMemo, useState } from 'react'
+import type { P6ActivityOutput } from '@/types/database'
+
+interface GanttChartProps {
+  rows: P6ActivityOutput[]
+  dataDate: string | null
+  showPlanned: boolean
+  pxPerDay?: number
+}
+
+type GanttItem =
+  | { kind: 'group'; key: string; label: string; count: number; start: number | null; end: number | null }
+  | { kind: 'task'; key: string; row: P6ActivityOutput; start: number | null; end: number | null; plannedStart: number | null; plannedEnd: number | null }
+
+const ROW_H = 24
+const HEADER_H = 36
+const LEFT_W = 340
+const VIEWPORT_H = 600
+const OVERSCAN = 10
+const DAY_MS = 86_400_000
+
+const toDay = (d: string | null): number | null => {
+  if (!d) return null
+  const t = Date.parse(d)
+  return isNaN(t) ? null : Math.floor(t / DAY_MS)
+}
+
+const barColour = (status: string | null) =>
+  status === 'Completed' ? 'bg-green-500' :
+  status === 'In Progress' ? 'bg-blue-500' :
+  status === 'Not Started' ? 'bg-gray-400' :
+  'bg-amber-500'
+
+const formatDay = (day: number) =>
+  new Date(day * DAY_MS).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+
+/**
+ * Gantt view of P6 activity output, grouped by WBS. Only the rows in view are rendered,
+ * so schedules of several thousand activities scroll without freezing the tab.
+ */
+export function GanttChart({ rows, dataDate, showPlanned, pxPerDay = 4 }: GanttChartProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [scrollTop, setScrollTop] = useState(0)
+
+  const groups = useMemo(() => {
+    const map = new Map<string, { label: string; tasks: P6ActivityOutput[] }>()
+    for (const r of rows) {
+      const key = r.wbs_code || '(No WBS)'
+      if (!map.has(key)) map.set(key, { label: r.wbs_name ? `${key} — ${r.wbs_name}` : key, tasks: [] })
+      map.get(key)!.tasks.push(r)
+    }
+    return [...map.entries()].sort(([a], [b]) => a.localeCompare(b))
+  }, [rows])
+
+  const { items, minDay, maxDay } = useMemo(() => {
+    const list: GanttItem[] = []
+    let lo = Infinity
+    let hi = -Infinity
+    const track = (...days: (number | null)[]) => days.forEach(d => {
+      if (d == null) return
+      if (d < lo) lo = d
+      if (d > hi) hi = d
+    })
+    for (const [key, group] of groups) {
+      const tasks = group.tasks.map(row => {
+        // Actual dates where the activity has started/finished, else the early (forecast) dates
+        const start = toDay(row.actual_start) ?? toDay(row.early_start)
+        const end = toDay(row.actual_finish) ?? toDay(row.early_finish) ?? start
+        const plannedStart = toDay(row.planned_start)
+        const plannedEnd = toDay(row.planned_finish) ?? plannedStart
+        track(start, end, plannedStart, plannedEnd)
+        return { kind: 'task' as const, key: `t:${row.id}`, row, start, end, plannedStart, plannedEnd }
+      })
+      const starts = tasks.map(t => t.start).filter((d): d is number => d != null)
+      const ends = tasks.map(t => t.end).filter((d): d is number => d != null)
+      list.push({
+        kind: 'group', key, label: group.label, count: tasks.length,
+        start: starts.length ? Math.min(...starts) : null,
+        end: ends.length ? Math.max(...ends) : null,
+      })
+      if (!collapsed.has(key)) list.push(...tasks)
+    }
+    const dd = toDay(dataDate)
+    track(dd)
+    if (lo === Infinity) { lo = dd ?? Math.floor(Date.now() / DAY_MS); hi = lo }
+    // A week of padding either side keeps the first and last bars off the edge
+    return { items: list, minDay: lo - 7, maxDay: hi + 7 }
+  }, [groups, collapsed, dataDate])
+
+  const timelineW = (maxDay - minDay + 1) * pxPerDay
+  const x = (day: number) => (day - minDay) * pxPerDay
+
+  const months = useMemo(() => {
+    const result: { key: string; left: number; label: string }[] = []
+    const first = new Date(minDay * DAY_MS)
+    const cursor = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1))
+    while (cursor.getTime() / DAY_MS <= maxDay) {
+      const day = Math.floor(cursor.getTime() / DAY_MS)
+      result.push({
+        key: cursor.toISOString().slice(0, 7),
+        left: Math.max(0, (day - minDay) * pxPerDay),
+        label: cursor.toLocaleDateString('en-GB', { month: 'short', year: '2-digit', timeZone: 'UTC' }),
+      })
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+    }
+    return result
+  }, [minDay, maxDay, pxPerDay])
+
+  const toggleGroup = (key: string) => setCollapsed(prev => {
+    const next = new Set(prev)
+    if (next.has(key)) next.delete(key); else next.add(key)
+    return next
+  })
+
+  const firstIndex = Math.max(0, Math.floor(Math.max(0, scrollTop - HEADER_H) / ROW_H) - OVERSCAN)
+  const lastIndex = Math.min(items.length, Math.ceil((scrollTop + VIEWPORT_H) / ROW_H) + OVERSCAN)
+  const visible = items.slice(firstIndex, lastIndex)
+  const dataDay = toDay(dataDate)
+
+  if (rows.length === 0) {
+    return <p className="px-6 py-8 text-center text-gray-500">No records found</p>
+  }
+
+  const bar = (start: number | null, end: number | null, cls: string, title: string, top: number, height: number) => {
+    if (start == null || end == null) return null
+    if (end === start) {
+      return (
+        <div
+          title={title}
+          className={`absolute rotate-45 ${cls}`}
+          style={{ left: x(start) - 5 + pxPerDay / 2, top: top + height / 2 - 5, width: 10, height: 10 }}
+        />
+      )
+    }
+    return (
+      <div
+        title={title}
+        className={`absolute rounded-sm ${cls}`}
+        style={{ left: x(start), top, width: Math.max(2, (end - start + 1) * pxPerDay), height }}
+      />
+    )
+  }
+
+  return (
+    <div
+      className="overflow-auto border-t border-gray-200"
+      style={{ height: VIEWPORT_H }}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ width: LEFT_W + timelineW }}>
+        {/* Timeline header */}
+        <div className="sticky top-0 z-20 flex bg-gray-50 border-b border-gray-200" style={{ height: HEADER_H }}>
+          <div className="sticky left-0 z-30 flex items-center px-3 bg-gray-50 border-r border-gray-200 text-xs font-medium text-gray-600 uppercase tracking-wide" style={{ width: LEFT_W, minWidth: LEFT_W }}>
+            Activity
+          </div>
+          <div className="relative" style={{ width: timelineW }}>
+            {months.map(m => (
+              <div key={m.key} className="absolute top-0 bottom-0 border-l border-gray-200 pl-1 pt-2.5 text-xs text-gray-500 whitespace-nowrap" style={{ left: m.left }}>
+                {m.label}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rows */}
+        <div className="relative" style={{ height: items.length * ROW_H }}>
+          {dataDay != null && (
+            <div
+              title={`Data date ${formatDay(dataDay)}`}
+              className="absolute top-0 bottom-0 w-px bg-red-500 z-0"
+              style={{ left: LEFT_W + x(dataDay) }}
+            />
+          )}
+          {visible.map((item, i) => {
+            const index = firstIndex + i
+            if (item.kind === 'group') {
+              const isCollapsed = collapsed.has(item.key)
+              return (
+                <div key={item.key} className="absolute flex bg-gray-50/70 border-b border-gray-100" style={{ top: index * ROW_H, height: ROW_H, width: LEFT_W + timelineW }}>
+                  <button
+                    type="button"
+                    onClick={() => toggleGroup(item.key)}
+                    className="sticky left-0 z-10 flex items-center gap-1 px-2 bg-gray-100 border-r border-gray-200 text-xs font-semibold text-gray-700 text-left truncate"
+                    style={{ width: LEFT_W, minWidth: LEFT_W }}
+                    title={item.label}
+                  >
+                    <svg className={`w-3 h-3 flex-shrink-0 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                    <span className="truncate">{item.label}</span>
+                    <span className="ml-auto pl-1 font-normal text-gray-400">{item.count}</span>
+                  </button>
+                  <div className="relative" style={{ width: timelineW }}>
+                    {bar(item.start, item.end, 'bg-gray-700', item.label, 9, 6)}
+                  </div>
+                </div>
+              )
+            }
+            const r = item.row
+            const label = `${r.activity_id ?? ''} ${r.activity_name ?? ''}`.trim()
+            const span = item.start != null && item.end != null ? `${formatDay(item.start)} → ${formatDay(item.end)}` : 'No dates'
+            const plannedSpan = item.plannedStart != null && item.plannedEnd != null ? `${formatDay(item.plannedStart)} → ${formatDay(item.plannedEnd)}` : 'No planned dates'
+            return (
+              <div key={item.key} className="absolute flex border-b border-gray-50 hover:bg-blue-50/40" style={{ top: index * ROW_H, height: ROW_H, width: LEFT_W + timelineW }}>
+                <div className="sticky left-0 z-10 flex items-center gap-2 pl-6 pr-2 bg-white border-r border-gray-200 text-xs" style={{ width: LEFT_W, minWidth: LEFT_W }} title={label}>
+                  <span className="font-mono text-gray-900 whitespace-nowrap">{r.activity_id || '-'}</span>
+                  <span className="text-gray-600 truncate">{r.activity_name || ''}</span>
+                </div>
+                <div className="relative" style={{ width: timelineW }}>
+                  {showPlanned
+                    ? <>
+                        {bar(item.plannedStart, item.plannedEnd, 'bg-gray-300', `Planned: ${plannedSpan}`, 4, 6)}
+                        {bar(item.start, item.end, barColour(r.status), `${r.status ?? ''}: ${span}`, 12, 8)}
+                      </>
+                    : bar(item.start, item.end, barColour(r.status), `${r.status ?? ''}: ${span}`, 6, 12)}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
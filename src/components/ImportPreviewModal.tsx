@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { ImportPlan, ImportRowKind } from '@/utils/csvImport'
+
+interface ImportPreviewModalProps<T> {
+  plan: ImportPlan<T> | null
+  /** Register name for the heading, e.g. "Engineering" */
+  title: string
+  saving: boolean
+  onConfirm: (rows: T[]) => void
+  onCancel: () => void
+}
+
+type Section = 'rows' | 'dropped' | 'dates'
+
+const KIND_LABELS: Record<ImportRowKind, string> = { insert: 'New', update: 'Changed', unchanged: 'Unchanged' }
+
+const KIND_CLASSES: Record<ImportRowKind, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+}
+
+const display = (v: unknown) => (v === null || v === undefined || v === '' ? <span className="italic text-gray-400">blank</span> : String(v))
+
+/** Shows what a CSV import will write so rows can be unticked before anything is saved */
+export function ImportPreviewModal<T>({ plan, title, saving, onConfirm, onCancel }: ImportPreviewModalProps<T>) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [section, setSection] = useState<Section>('rows')
+
+  // Unchanged rows are left unticked; writing them again would only add history noise
+  useEffect(() => {
+    if (!plan) return
+    setSelected(new Set(plan.rows.filter(r => r.kind !== 'unchanged').map(r => r.ref)))
+    setSection('rows')
+  }, [plan])
+
+  useEffect(() => {
+    if (!plan) return
+    const handleEscape = (e: KeyboardEvent) => { if (e.key === 'Escape' && !saving) onCancel() }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [plan, saving, onCancel])
+
+  const counts = useMemo(() => {
+    const c: Record<ImportRowKind, number> = { insert: 0, update: 0, unchanged: 0 }
+    plan?.rows.forEach(r => { c[r.kind]++ })
+    return c
+  }, [plan])
+
+  if (!plan) return null
+
+  const allSelected = plan.rows.length > 0 && plan.rows.every(r => selected.has(r.ref))
+  const toggle = (ref: string) => setSelected(prev => {
+    const next = new Set(prev)
+    if (next.has(ref)) next.delete(ref)
+    else next.add(ref)
+    return next
+  })
+
+  const tabs: { key: Section; label: string; count: number }[] = [
+    { key: 'rows', label: 'Rows to import', count: plan.rows.length },
+    { key: 'dropped', label: 'Dropped', count: plan.dropped.length },
+    { key: 'dates', label: 'Unparseable dates', count: plan.invalidDates.length },
+  ]
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={() => !saving && onCancel()} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Import preview — {title}</h3>
+              <p className="text-xs text-gray-500">
+                {counts.insert} new, {counts.update} changed, {counts.unchanged} unchanged, {plan.dropped.length} dropped
+              </p>
+            </div>
+            <button onClick={onCancel} disabled={saving} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex gap-1 px-4 pt-3 border-b border-gray-200">
+            {tabs.map(t => (
+              <button
+                key={t.key}
+                onClick={() => setSection(t.key)}
+                className={`px-3 py-1.5 text-xs font-medium border-b-2 -mb-px ${section === t.key ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+              >
+                {t.label}
+                <span className={`ml-1.5 px-1.5 py-0.5 rounded ${t.key !== 'rows' && t.count > 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'}`}>{t.count}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {section === 'rows' && (
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-8">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() => setSelected(allSelected ? new Set() : new Set(plan.rows.map(r => r.ref)))}
+                        className="rounded border-gray-300"
+                      />
+                    </th>
+                    {['Line', 'Ref', 'Action', 'Changes'].map(label => (
+                      <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {plan.rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-sm text-gray-500">No rows to import</td>
+                    </tr>
+                  ) : plan.rows.map(r => (
+                    <tr key={r.ref} className={selected.has(r.ref) ? 'align-top' : 'align-top bg-gray-50 text-gray-400'}>
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={selected.has(r.ref)} onChange={() => toggle(r.ref)} className="rounded border-gray-300" />
+                      </td>
+                      <td className="px-3 py-2 text-gray-500">{r.line}</td>
+                      <td className="px-3 py-2 font-mono text-gray-900 whitespace-nowrap">{r.ref}</td>
+                      <td className="px-3 py-2">
+                        <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${KIND_CLASSES[r.kind]}`}>{KIND_LABELS[r.kind]}</span>
+                      </td>
+                      <td className="px-3 py-2">
+                        {r.changes.length === 0 ? (
+                          <span className="text-gray-400">-</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {r.changes.map(c => (
+                              <li key={c.field}>
+                                <span className="font-mono text-gray-500">{c.field}</span>{' '}
+                                <span className="text-red-600 line-through">{display(c.from)}</span>{' → '}
+                                <span className="text-green-700">{display(c.to)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {section !== 'rows' && (
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    {['Line', 'Ref', 'Reason'].map(label => (
+                      <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(section === 'dropped' ? plan.dropped : plan.invalidDates).length === 0 ? (
+                    <tr>
+                      <td colSpan={3} className="px-3 py-6 text-center text-sm text-gray-500">Nothing to report</td>
+                    </tr>
+                  ) : (section === 'dropped' ? plan.dropped : plan.invalidDates).map((issue, i) => (
+                    <tr key={`${issue.line}-${i}`}>
+                      <td className="px-3 py-2 text-gray-500">{issue.line}</td>
+                      <td className="px-3 py-2 font-mono text-gray-900">{issue.ref ?? '-'}</td>
+                      <td className="px-3 py-2 text-gray-700">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-3 p-4 border-t">
+            <span className="mr-auto text-xs text-gray-500">{selected.size} of {plan.rows.length} rows selected</span>
+            <button
+              onClick={onCancel}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(plan.rows.filter(r => selected.has(r.ref)).map(r => r.row))}
+              disabled={saving || selected.size === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Importing...' : `Import ${selected.size} row${selected.size !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
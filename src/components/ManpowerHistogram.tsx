@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { ActualResources, Type } from '@/types/database'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+
+type ManpowerRow = Pick<ActualResources, 'week_num' | 'dgt_resourcecount' | 'dgt_resourcediscipline' | 'dgt_resourcetype'>
+
+interface ManpowerHistogramProps {
+  projectId: string
+  schemaName: string
+  types: Type[]
+  disciplineLabel: (code: number | null) => string
+  typeLabel: (code: number | null) => string
+}
+
+type Breakdown = 'discipline' | 'type'
+
+const PAGE_SIZE = 1000
+const WIDTH = 900
+const HEIGHT = 300
+const PAD = { top: 16, right: 16, bottom: 32, left: 44 }
+const PALETTE = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#475569']
+
+const TREND_SERIES = [
+  { key: 'direct', label: 'Direct', colour: '#2563eb' },
+  { key: 'indirect', label: 'Indirect', colour: '#f59e0b' },
+  { key: 'total', label: 'Total', colour: '#6b7280' },
+] as const
+
+// Types named "direct" (but not "indirect") start as direct; the rest count as indirect
+const isDirectByName = (t: Type) => /direct/i.test(t.type_name ?? '') && !/indirect/i.test(t.type_name ?? '')
+
+/** Weekly headcount from Actual Resources: stacked by discipline or type, plus direct vs indirect trend */
+export function ManpowerHistogram({ projectId, schemaName, types, disciplineLabel, typeLabel }: ManpowerHistogramProps) {
+  const [rows, setRows] = useState<ManpowerRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [breakdown, setBreakdown] = useState<Breakdown>('discipline')
+  const [directTypes, setDirectTypes] = useState<Set<number>>(new Set())
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchAll = async () => {
+      setLoading(true)
+      setError(null)
+      const all: ManpowerRow[] = []
+      let page = 0
+      while (true) {
+        const { data, error } = await schemaClient(schemaName)
+          .from('dbp6_000501_actualresources_current')
+          .select('week_num, dgt_resourcecount, dgt_resourcediscipline, dgt_resourcetype')
+          .eq('dgt_dbp6bd00projectdataid', projectId)
+          .not('week_num', 'is', null)
+          .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+        if (cancelled) return
+        if (error) { setError(error.message); break }
+        all.push(...((data || []) as ManpowerRow[]))
+        if (!data || data.length < PAGE_SIZE) break
+        page++
+      }
+      setRows(all)
+      setLoading(false)
+    }
+    fetchAll()
+    return () => { cancelled = true }
+  }, [projectId, schemaName])
+
+  useEffect(() => {
+    setDirectTypes(new Set(types.filter(isDirectByName).map(t => t.type_code).filter((c): c is number => c != null)))
+  }, [types])
+
+  // Every week from first to last, so gaps show as empty bars
+  const weeks = useMemo(() => {
+    const nums = rows.map(r => r.week_num!).filter(w => w != null)
+    if (nums.length === 0) return []
+    const min = Math.min(...nums)
+    const max = Math.max(...nums)
+    return Array.from({ length: max - min + 1 }, (_, i) => min + i)
+  }, [rows])
+
+  const stacks = useMemo(() => {
+    const byGroup = new Map<number | null, Map<number, number>>()
+    for (const r of rows) {
+      const key = breakdown === 'discipline' ? r.dgt_resourcediscipline : r.dgt_resourcetype
+      if (!byGroup.has(key)) byGroup.set(key, new Map())
+      const weekMap = byGroup.get(key)!
+      weekMap.set(r.week_num!, (weekMap.get(r.week_num!) ?? 0) + (r.dgt_resourcecount ?? 0))
+    }
+    return [...byGroup.entries()]
+      .map(([key, byWeek]) => ({
+        key,
+        label: breakdown === 'discipline' ? disciplineLabel(key) : typeLabel(key),
+        byWeek,
+        total: [...byWeek.values()].reduce((a, b) => a + b, 0),
+      }))
+      .sort((a, b) => b.total - a.total)
+      .map((g, i) => ({ ...g, colour: PALETTE[i % PALETTE.length] }))
+  }, [rows, breakdown, disciplineLabel, typeLabel])
+
+  const trend = useMemo(() => weeks.map(week => {
+    let direct = 0
+    let indirect = 0
+    for (const r of rows) {
+      if (r.week_num !== week) continue
+      if (r.dgt_resourcetype != null && directTypes.has(r.dgt_resourcetype)) direct += r.dgt_resourcecount ?? 0
+      else indirect += r.dgt_resourcecount ?? 0
+    }
+    return { week, direct, indirect, total: direct + indirect }
+  }), [weeks, rows, directTypes])
+
+  const toggleDirect = (code: number) => setDirectTypes(prev => {
+    const next = new Set(prev)
+    if (next.has(code)) next.delete(code)
+    else next.add(code)
+    return next
+  })
+
+  if (loading) return <LoadingSpinner />
+  if (error) return <p className="px-4 py-6 text-sm text-red-600">Failed to load manpower: {error}</p>
+  if (weeks.length === 0) return <p className="px-4 py-8 text-center text-sm text-gray-500">No weekly resource data to chart.</p>
+
+  const plotW = WIDTH - PAD.left - PAD.right
+  const plotH = HEIGHT - PAD.top - PAD.bottom
+  const slot = plotW / weeks.length
+  const labelEvery = Math.max(1, Math.ceil(weeks.length / 20))
+  const maxY = Math.max(1, ...trend.map(t => t.total))
+  const y = (v: number) => PAD.top + plotH - (v / maxY) * plotH
+  const yTicks = Array.from({ length: 5 }, (_, i) => Math.round((maxY / 4) * i))
+  const xCentre = (i: number) => PAD.left + slot * i + slot / 2
+
+  const axes = (
+    <>
+      {yTicks.map(t => (
+        <g key={t}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#e5e7eb" />
+          <text x={PAD.left - 6} y={y(t) + 3} textAnchor="end" className="fill-gray-500" fontSize="10">{t}</text>
+        </g>
+      ))}
+      {weeks.map((w, i) => i % labelEvery === 0 && (
+        <text key={w} x={xCentre(i)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle" className="fill-gray-500" fontSize="10">W{w}</text>
+      ))}
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+    </>
+  )
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+        <span className="text-sm font-semibold text-gray-900">Manpower histogram</span>
+        <span className="text-xs text-gray-500">Weeks {weeks[0]}–{weeks[weeks.length - 1]}, peak {maxY}</span>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden ml-auto">
+          {(['discipline', 'type'] as Breakdown[]).map(b => (
+            <button
+              key={b}
+              onClick={() => setBreakdown(b)}
+              className={`h-8 px-3 text-xs font-medium ${breakdown === b ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              By {b}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-2">
+        <div className="flex flex-wrap gap-3">
+          {stacks.map(g => (
+            <span key={String(g.key)} className="inline-flex items-center gap-1.5 text-xs text-gray-600">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: g.colour }} />
+              {g.label}
+            </span>
+          ))}
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {axes}
+          {weeks.map((w, i) => {
+            let base = 0
+            return (
+              <g key={w}>
+                {stacks.map(g => {
+                  const v = g.byWeek.get(w) ?? 0
+                  if (v === 0) return null
+                  const top = base + v
+                  const rect = (
+                    <rect key={String(g.key)} x={PAD.left + slot * i + slot * 0.15} width={slot * 0.7} y={y(top)} height={y(base) - y(top)} fill={g.colour}>
+                      <title>{`Week ${w} · ${g.label}: ${v}`}</title>
+                    </rect>
+                  )
+                  base = top
+                  return rect
+                })}
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+
+      <div className="p-4 space-y-2 border-t border-gray-200">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-semibold text-gray-900">Direct vs indirect</span>
+          {TREND_SERIES.map(s => (
+            <span key={s.key} className="inline-flex items-center gap-1.5 text-xs text-gray-600">
+              <svg width="20" height="6"><line x1="0" y1="3" x2="20" y2="3" stroke={s.colour} strokeWidth="2" strokeDasharray={s.key === 'total' ? '4 3' : undefined} /></svg>
+              {s.label}
+            </span>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="text-gray-500">Direct types:</span>
+          {types.filter(t => t.type_code != null).map(t => (
+            <button
+              key={t.id}
+              onClick={() => toggleDirect(t.type_code!)}
+              className={`px-1.5 py-0.5 rounded border ${directTypes.has(t.type_code!) ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-gray-200 text-gray-500'}`}
+            >
+              {t.type_name}
+            </button>
+          ))}
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {axes}
+          {TREND_SERIES.map(s => (
+            <polyline
+              key={s.key}
+              fill="none"
+              stroke={s.colour}
+              strokeWidth="2"
+              strokeDasharray={s.key === 'total' ? '6 4' : undefined}
+              points={trend.map((t, i) => `${xCentre(i)},${y(t[s.key])}`).join(' ')}
+            />
+          ))}
+          {trend.map((t, i) => (
+            <rect key={t.week} x={PAD.left + slot * i} y={PAD.top} width={slot} height={plotH} fill="transparent">
+              <title>{`Week ${t.week}\nDirect: ${t.direct}\nIndirect: ${t.indirect}\nTotal: ${t.total}`}</title>
+            </rect>
+          ))}
+        </svg>
+      </div>
+    </div>
+  )
+}
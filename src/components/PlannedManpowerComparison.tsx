@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { ActualResources, Discipline, PlannedManpower } from '@/types/database'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { exportToCsv, parseCsvFile } from '@/utils/csv'
+import { PLAN_TOTAL_DISCIPLINE, isPlanTotal, parsePlannedManpower } from '@/utils/manpower'
+
+type ActualRow = Pick<ActualResources, 'week_num' | 'dgt_resourcecount' | 'dgt_resourcediscipline'>
+
+interface PlannedManpowerComparisonProps {
+  projectId: string
+  schemaName: string
+  disciplines: Discipline[]
+  disciplineLabel: (code: number | null) => string
+  onNotify: (type: 'success' | 'error', message: string) => void
+}
+
+interface WeekComparison {
+  week: number
+  planned: number | null
+  actual: number
+  variance: number | null
+  variancePct: number | null
+  short: boolean
+}
+
+const PAGE_SIZE = 1000
+const WIDTH = 900
+const HEIGHT = 280
+const PAD = { top: 16, right: 16, bottom: 32, left: 44 }
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+/** Planned manpower curve (dbp6_planned_manpower) against weekly Actual Resources headcount */
+export function PlannedManpowerComparison({ projectId, schemaName, disciplines, disciplineLabel, onNotify }: PlannedManpowerComparisonProps) {
+  const supabase = schemaClient(schemaName)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [planned, setPlanned] = useState<PlannedManpower[]>([])
+  const [actuals, setActuals] = useState<ActualRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [discipline, setDiscipline] = useState('')
+  const [threshold, setThreshold] = useState(10)
+  const [entry, setEntry] = useState({ week: '', discipline: '', count: '' })
+  const [showClearConfirm, setShowClearConfirm] = useState(false)
+
+  const fetchPlanned = async () => {
+    const { data, error } = await supabase
+      .from('dbp6_planned_manpower')
+      .select('*')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .order('week_num', { ascending: true })
+    if (error) onNotify('error', 'Failed to load planned manpower: ' + error.message)
+    else setPlanned((data || []) as PlannedManpower[])
+  }
+
+  const fetchActuals = async () => {
+    const all: ActualRow[] = []
+    let page = 0
+    while (true) {
+      const { data, error } = await supabase
+        .from('dbp6_000501_actualresources_current')
+        .select('week_num, dgt_resourcecount, dgt_resourcediscipline')
+        .eq('dgt_dbp6bd00projectdataid', projectId)
+        .not('week_num', 'is', null)
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+      if (error) { onNotify('error', 'Failed to load actual resources: ' + error.message); break }
+      all.push(...((data || []) as ActualRow[]))
+      if (!data || data.length < PAGE_SIZE) break
+      page++
+    }
+    setActuals(all)
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    Promise.all([fetchPlanned(), fetchActuals()]).then(() => setLoading(false))
+  }, [projectId, schemaName])
+
+  const savePlan = async (rows: { week_num: number; dgt_resourcediscipline: number; planned_count: number }[], source: string) => {
+    setSaving(true)
+    const { error } = await supabase
+      .from('dbp6_planned_manpower')
+      .upsert(rows.map(r => ({ ...r, dgt_dbp6bd00projectdataid: projectId, source })) as never[], {
+        onConflict: 'dgt_dbp6bd00projectdataid,week_num,dgt_resourcediscipline',
+      })
+    setSaving(false)
+    if (error) { onNotify('error', 'Failed to save planned manpower: ' + error.message); return false }
+    await fetchPlanned()
+    return true
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    if (!file) return
+    const rows = await parseCsvFile(file)
+    if (rows.length === 0) { onNotify('error', 'No data found in CSV'); return }
+    const { entries, source, skipped } = parsePlannedManpower(rows, disciplines)
+    if (entries.length === 0) { onNotify('error', `No planned manpower found. ${skipped.slice(0, 3).join('; ')}`); return }
+    if (await savePlan(entries, source)) {
+      const note = skipped.length ? ` (${skipped.length} skipped: ${skipped.slice(0, 3).join('; ')}${skipped.length > 3 ? '…' : ''})` : ''
+      onNotify(skipped.length ? 'error' : 'success', `${entries.length} planned values loaded from ${source === 'p6' ? 'P6 export' : 'CSV'}${note}`)
+    }
+  }
+
+  const handleAddEntry = async () => {
+    const week = parseInt(entry.week)
+    const count = Number(entry.count)
+    if (isNaN(week) || entry.count === '' || isNaN(count)) return
+    const ok = await savePlan([{ week_num: week, dgt_resourcediscipline: entry.discipline ? Number(entry.discipline) : PLAN_TOTAL_DISCIPLINE, planned_count: count }], 'manual')
+    if (ok) {
+      onNotify('success', `Planned manpower for week ${week} saved`)
+      setEntry({ week: '', discipline: entry.discipline, count: '' })
+    }
+  }
+
+  const handleClear = async () => {
+    setSaving(true)
+    const { error } = await supabase.from('dbp6_planned_manpower').delete().eq('dgt_dbp6bd00projectdataid', projectId)
+    setSaving(false)
+    setShowClearConfirm(false)
+    if (error) { onNotify('error', 'Failed to clear plan: ' + error.message); return }
+    setPlanned([])
+    onNotify('success', 'Planned manpower cleared')
+  }
+
+  const comparison = useMemo<WeekComparison[]>(() => {
+    // Project-total rows only feed the all-disciplines view, and only for weeks with no per-discipline plan
+    const plannedByWeek = new Map<number, number>()
+    const sumInto = (map: Map<number, number>, rows: PlannedManpower[]) =>
+      rows.forEach(p => map.set(p.week_num, (map.get(p.week_num) ?? 0) + p.planned_count))
+    if (discipline) {
+      sumInto(plannedByWeek, planned.filter(p => p.dgt_resourcediscipline === Number(discipline)))
+    } else {
+      const totals = new Map<number, number>()
+      sumInto(plannedByWeek, planned.filter(p => !isPlanTotal(p.dgt_resourcediscipline)))
+      sumInto(totals, planned.filter(p => isPlanTotal(p.dgt_resourcediscipline)))
+      totals.forEach((count, week) => { if (!plannedByWeek.has(week)) plannedByWeek.set(week, count) })
+    }
+    const actualRows = discipline ? actuals.filter(a => a.dgt_resourcediscipline === Number(discipline)) : actuals
+    const actualByWeek = new Map<number, number>()
+    for (const a of actualRows) actualByWeek.set(a.week_num!, (actualByWeek.get(a.week_num!) ?? 0) + (a.dgt_resourcecount ?? 0))
+
+    const weeks = [...plannedByWeek.keys(), ...actualByWeek.keys()]
+    if (weeks.length === 0) return []
+    const min = Math.min(...weeks)
+    const max = Math.max(...weeks)
+    return Array.from({ length: max - min + 1 }, (_, i) => {
+      const week = min + i
+      const plan = plannedByWeek.get(week) ?? null
+      const actual = actualByWeek.get(week) ?? 0
+      const variance = plan != null ? actual - plan : null
+      return {
+        week,
+        planned: plan,
+        actual,
+        variance,
+        variancePct: plan ? Math.round((variance! / plan) * 1000) / 10 : null,
+        // Only weeks with actuals recorded can fall short; future weeks are just plan
+        short: plan != null && plan > 0 && actualByWeek.has(week) && actual < plan * (1 - threshold / 100),
+      }
+    })
+  }, [planned, actuals, discipline, threshold])
+
+  const shortWeeks = comparison.filter(c => c.short).length
+
+  const handleExport = () => {
+    exportToCsv(
+      `manpower-plan-vs-actual${discipline ? `-${discipline}` : ''}`,
+      ['week_num', 'discipline', 'planned', 'actual', 'variance', 'variance_pct', 'below_plan'],
+      comparison.map(c => [c.week, discipline ? disciplineLabel(Number(discipline)) : 'All', c.planned, c.actual, c.variance, c.variancePct, c.short ? 'yes' : null])
+    )
+  }
+
+  if (loading) return <LoadingSpinner />
+
+  const plotW = WIDTH - PAD.left - PAD.right
+  const plotH = HEIGHT - PAD.top - PAD.bottom
+  const slot = comparison.length ? plotW / comparison.length : plotW
+  const maxY = Math.max(1, ...comparison.map(c => Math.max(c.planned ?? 0, c.actual)))
+  const y = (v: number) => PAD.top + plotH - (v / maxY) * plotH
+  const xCentre = (i: number) => PAD.left + slot * i + slot / 2
+  const yTicks = Array.from({ length: 5 }, (_, i) => Math.round((maxY / 4) * i))
+  const labelEvery = Math.max(1, Math.ceil(comparison.length / 20))
+  const plannedPoints = comparison
+    .map((c, i) => (c.planned != null ? `${xCentre(i)},${y(c.planned)}` : null))
+    .filter(Boolean)
+    .join(' ')
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+        <span className="text-sm font-semibold text-gray-900">Planned vs actual manpower</span>
+        <select value={discipline} onChange={e => setDiscipline(e.target.value)} className={selectCls}>
+          <option value="">All disciplines</option>
+          {disciplines.map(d => <option key={d.id} value={d.discipline_code ?? ''}>{d.discipline_name}</option>)}
+        </select>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600" title="Flag weeks where actuals fall below plan by more than this">
+          Flag below plan by
+          <input type="number" min="0" max="100" value={threshold} onChange={e => setThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))} className={`${selectCls} w-16`} />
+          %
+        </label>
+        {shortWeeks > 0 && (
+          <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">{shortWeeks} week{shortWeeks !== 1 ? 's' : ''} below plan</span>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleFileChange} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40"
+            title="CSV with week_num, discipline, planned_count, or a P6 resource loading export with one column per week"
+          >
+            Load plan CSV
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={comparison.length === 0}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          {planned.length > 0 && (
+            <button onClick={() => setShowClearConfirm(true)} className="text-xs font-medium text-red-600 hover:underline">
+              Clear plan
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-100 text-xs text-gray-600">
+        <span>Enter plan:</span>
+        <input type="number" placeholder="Week" value={entry.week} onChange={e => setEntry(p => ({ ...p, week: e.target.value }))} className={`${selectCls} w-20`} />
+        <select value={entry.discipline} onChange={e => setEntry(p => ({ ...p, discipline: e.target.value }))} className={selectCls}>
+          <option value="">All disciplines (total)</option>
+          {disciplines.map(d => <option key={d.id} value={d.discipline_code ?? ''}>{d.discipline_name}</option>)}
+        </select>
+        <input
+          type="number"
+          placeholder="Headcount"
+          value={entry.count}
+          onChange={e => setEntry(p => ({ ...p, count: e.target.value }))}
+          onKeyDown={e => { if (e.key === 'Enter') handleAddEntry() }}
+          className={`${selectCls} w-24`}
+        />
+        <button
+          onClick={handleAddEntry}
+          disabled={saving || !entry.week || entry.count === ''}
+          className="h-8 px-3 text-xs font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+
+      {comparison.length === 0 ? (
+        <p className="px-4 py-8 text-center text-sm text-gray-500">No planned or actual manpower yet. Load a plan CSV or enter weekly figures.</p>
+      ) : (
+        <>
+          <div className="p-4 space-y-2">
+            <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+              <span className="inline-flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-blue-500" />Actual</span>
+              <span className="inline-flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-red-500" />Actual below plan</span>
+              <span className="inline-flex items-center gap-1.5">
+                <svg width="20" height="6"><line x1="0" y1="3" x2="20" y2="3" stroke="#111827" strokeWidth="2" strokeDasharray="4 3" /></svg>
+                Planned
+              </span>
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {yTicks.map(t => (
+                <g key={t}>
+                  <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#e5e7eb" />
+                  <text x={PAD.left - 6} y={y(t) + 3} textAnchor="end" className="fill-gray-500" fontSize="10">{t}</text>
+                </g>
+              ))}
+              {comparison.map((c, i) => i % labelEvery === 0 && (
+                <text key={c.week} x={xCentre(i)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle" className="fill-gray-500" fontSize="10">W{c.week}</text>
+              ))}
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+              {comparison.map((c, i) => (
+                <rect key={c.week} x={PAD.left + slot * i + slot * 0.2} width={slot * 0.6} y={y(c.actual)} height={y(0) - y(c.actual)} fill={c.short ? '#ef4444' : '#3b82f6'}>
+                  <title>{`Week ${c.week}\nPlanned: ${c.planned ?? '-'}\nActual: ${c.actual}${c.variance != null ? `\nVariance: ${c.variance}` : ''}`}</title>
+                </rect>
+              ))}
+              <polyline fill="none" stroke="#111827" strokeWidth="2" strokeDasharray="6 4" points={plannedPoints} />
+            </svg>
+          </div>
+
+          <div className="overflow-x-auto max-h-72 border-t border-gray-200">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {['Week', 'Planned', 'Actual', 'Variance', 'Variance %'].map(label => (
+                    <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {comparison.map(c => (
+                  <tr key={c.week} className={c.short ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                    <td className="px-3 py-2 text-gray-900">W{c.week}</td>
+                    <td className="px-3 py-2 text-gray-700">{c.planned ?? '-'}</td>
+                    <td className="px-3 py-2 text-gray-700">{c.actual}</td>
+                    <td className={`px-3 py-2 ${c.variance != null && c.variance < 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                      {c.variance != null ? (c.variance > 0 ? `+${c.variance}` : c.variance) : '-'}
+                    </td>
+                    <td className={`px-3 py-2 ${c.short ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                      {c.variancePct != null ? `${c.variancePct > 0 ? '+' : ''}${c.variancePct}%` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={showClearConfirm}
+        title="Clear Planned Manpower"
+        message="Delete every planned manpower value for this project? Actual resources are not affected."
+        confirmLabel="Clear"
+        loading={saving}
+        onConfirm={handleClear}
+        onCancel={() => setShowClearConfirm(false)}
+      />
+    </div>
+  )
+}
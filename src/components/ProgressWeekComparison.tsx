@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useState } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { DynamicActualData } from '@/types/database'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+
+interface ProgressWeekComparisonProps {
+  projectId: string
+  schemaName: string
+  onSelectActivity: (activityId: string) => void
+  onError: (message: string) => void
+}
+
+type Movement = 'moved' | 'stalled' | 'regressed'
+
+type SnapshotRow = Pick<DynamicActualData, 'dgt_activityid' | 'dgt_actualstart' | 'dgt_actualfinish' | 'dgt_pctcomplete'>
+
+interface ComparisonRow {
+  activityId: string
+  movement: Movement
+  from: SnapshotRow | null
+  to: SnapshotRow
+  delta: number
+}
+
+const MOVEMENT_STYLES: Record<Movement, { label: string; badge: string }> = {
+  moved: { label: 'Moved', badge: 'bg-green-100 text-green-700' },
+  stalled: { label: 'Stalled', badge: 'bg-amber-100 text-amber-700' },
+  regressed: { label: 'Regressed', badge: 'bg-red-100 text-red-700' },
+}
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+/**
+ * Moved: progress or a new actual date. Regressed: progress fell or an actual date was removed.
+ * Stalled: started but unfinished, with nothing changed. Completed or untouched activities are left out.
+ */
+const classify = (from: SnapshotRow | null, to: SnapshotRow): Movement | null => {
+  const before = from?.dgt_pctcomplete ?? 0
+  const after = to.dgt_pctcomplete ?? 0
+  if (after < before || (from?.dgt_actualstart && !to.dgt_actualstart) || (from?.dgt_actualfinish && !to.dgt_actualfinish)) return 'regressed'
+  if (after > before || (!from?.dgt_actualstart && to.dgt_actualstart) || (!from?.dgt_actualfinish && to.dgt_actualfinish)) return 'moved'
+  if (to.dgt_actualstart && !to.dgt_actualfinish && after < 100) return 'stalled'
+  return null
+}
+
+/** Week-vs-week comparison of dbp6_0006_progressdata snapshots */
+export function ProgressWeekComparison({ projectId, schemaName, onSelectActivity, onError }: ProgressWeekComparisonProps) {
+  const [weeks, setWeeks] = useState<number[]>([])
+  const [fromWeek, setFromWeek] = useState('')
+  const [toWeek, setToWeek] = useState('')
+  const [rows, setRows] = useState<ComparisonRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [movementFilter, setMovementFilter] = useState<Movement | ''>('')
+
+  // Week options span the first to the last recorded week; default to the last two
+  useEffect(() => {
+    let cancelled = false
+    const supabase = schemaClient(schemaName)
+    const edge = (ascending: boolean) => supabase
+      .from('dbp6_0006_progressdata')
+      .select('dgt_weeknum')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .not('dgt_weeknum', 'is', null)
+      .order('dgt_weeknum', { ascending })
+      .limit(1)
+    Promise.all([edge(true), edge(false)]).then(([first, last]) => {
+      if (cancelled) return
+      const lo = (first.data as { dgt_weeknum: number }[] | null)?.[0]?.dgt_weeknum
+      const hi = (last.data as { dgt_weeknum: number }[] | null)?.[0]?.dgt_weeknum
+      if (lo == null || hi == null) { setWeeks([]); return }
+      const list = Array.from({ length: hi - lo + 1 }, (_, i) => hi - i)
+      setWeeks(list)
+      setToWeek(String(hi))
+      setFromWeek(String(list[1] ?? hi))
+    })
+    return () => { cancelled = true }
+  }, [projectId, schemaName])
+
+  useEffect(() => {
+    if (!fromWeek || !toWeek) { setRows([]); return }
+    let cancelled = false
+
+    const fetchWeek = async (week: number) => {
+      const PAGE_SIZE = 1000
+      let all: SnapshotRow[] = []
+      let from = 0
+      while (true) {
+        const { data, error } = await schemaClient(schemaName)
+          .from('dbp6_0006_progressdata')
+          .select('dgt_activityid, dgt_actualstart, dgt_actualfinish, dgt_pctcomplete')
+          .eq('dgt_dbp6bd00projectdataid', projectId)
+          .eq('dgt_weeknum', week)
+          .order('dgt_activityid', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1)
+        if (error) throw new Error(error.message)
+        all = all.concat((data || []) as SnapshotRow[])
+        if (!data || data.length < PAGE_SIZE) break
+        from += PAGE_SIZE
+      }
+      return all
+    }
+
+    const compare = async () => {
+      setLoading(true)
+      try {
+        const [fromRows, toRows] = await Promise.all([fetchWeek(parseInt(fromWeek)), fetchWeek(parseInt(toWeek))])
+        if (cancelled) return
+        const previous = new Map(fromRows.map(r => [r.dgt_activityid, r]))
+        const result: ComparisonRow[] = []
+        for (const to of toRows) {
+          if (!to.dgt_activityid) continue
+          const from = previous.get(to.dgt_activityid) ?? null
+          const movement = classify(from, to)
+          if (!movement) continue
+          const delta = Math.round(((to.dgt_pctcomplete ?? 0) - (from?.dgt_pctcomplete ?? 0)) * 10) / 10
+          result.push({ activityId: to.dgt_activityid, movement, from, to, delta })
+        }
+        setRows(result)
+      } catch (err) {
+        if (!cancelled) onError('Failed to compare weeks: ' + (err instanceof Error ? err.message : String(err)))
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    compare()
+    return () => { cancelled = true }
+  }, [projectId, schemaName, fromWeek, toWeek])
+
+  const counts = useMemo(() => {
+    const c: Record<Movement, number> = { moved: 0, stalled: 0, regressed: 0 }
+    for (const r of rows) c[r.movement]++
+    return c
+  }, [rows])
+
+  const visible = movementFilter ? rows.filter(r => r.movement === movementFilter) : rows
+
+  if (weeks.length === 0) {
+    return <p className="px-3 py-8 text-center text-sm text-gray-500 bg-white border border-gray-200 rounded-lg">No weekly snapshots recorded for this project.</p>
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg border border-gray-200 overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+          From week
+          <select value={fromWeek} onChange={e => setFromWeek(e.target.value)} className={selectCls}>
+            {weeks.map(w => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+          To week
+          <select value={toWeek} onChange={e => setToWeek(e.target.value)} className={selectCls}>
+            {weeks.map(w => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-1.5 ml-auto">
+          {(Object.keys(MOVEMENT_STYLES) as Movement[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMovementFilter(movementFilter === m ? '' : m)}
+              className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${MOVEMENT_STYLES[m].badge} ${movementFilter === m ? 'ring-1 ring-offset-1 ring-current' : ''}`}
+            >
+              {counts[m]} {MOVEMENT_STYLES[m].label.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0">
+              <tr className="bg-gray-50 border-b border-gray-200">
+                {['Activity ID', 'Movement', `% Week ${fromWeek}`, `% Week ${toWeek}`, 'Change', 'Actual Start', 'Actual Finish'].map(label => (
+                  <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visible.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-8 text-center text-sm text-gray-500">No activities moved, stalled or regressed between these weeks</td>
+                </tr>
+              ) : visible.map(r => (
+                <tr key={r.activityId} className="hover:bg-gray-50">
+                  <td className="px-3 py-1.5 whitespace-nowrap">
+                    <button onClick={() => onSelectActivity(r.activityId)} className="font-mono text-blue-600 hover:underline">{r.activityId}</button>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <span className={`inline-flex px-1.5 py-0.5 rounded font-medium ${MOVEMENT_STYLES[r.movement].badge}`}>{MOVEMENT_STYLES[r.movement].label}</span>
+                  </td>
+                  <td className="px-3 py-1.5 font-mono text-gray-700">{r.from?.dgt_pctcomplete != null ? `${r.from.dgt_pctcomplete.toFixed(1)}%` : '-'}</td>
+                  <td className="px-3 py-1.5 font-mono text-gray-700">{r.to.dgt_pctcomplete != null ? `${r.to.dgt_pctcomplete.toFixed(1)}%` : '-'}</td>
+                  <td className={`px-3 py-1.5 font-mono ${r.delta === 0 ? 'text-gray-400' : r.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {`${r.delta > 0 ? '+' : ''}${r.delta.toFixed(1)}`}
+                  </td>
+                  <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">{formatDate(r.to.dgt_actualstart)}</td>
+                  <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">{formatDate(r.to.dgt_actualfinish)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react'
+import type { QaqcHse, StatusMeaning } from '@/types/database'
+import { daysBetween } from '@/utils/dates'
+import { exportToCsv } from '@/utils/csv'
+
+interface QaqcAgeingReportProps {
+  rows: QaqcHse[]
+  meaningOf: (code: string | null) => StatusMeaning | null
+  disciplineLabel: (code: string | null) => string
+  typeLabel: (code: string | null) => string
+}
+
+interface AgeingBucket {
+  label: string
+  /** Inclusive upper bound in days; the last bucket is open-ended */
+  max: number
+}
+
+const BUCKETS: AgeingBucket[] = [
+  { label: '0–7', max: 7 },
+  { label: '8–14', max: 14 },
+  { label: '15–30', max: 30 },
+  { label: '>30', max: Infinity },
+]
+
+const BUCKET_CLASSES = ['text-gray-700', 'text-amber-600', 'text-orange-600', 'text-red-600 font-semibold']
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+const bucketIndex = (days: number) => BUCKETS.findIndex(b => days <= b.max)
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+/**
+ * Ageing of open QAQC/HSE documents since submission, bucketed by discipline and
+ * document type, with rejected documents still awaiting resubmission past a threshold.
+ */
+export function QaqcAgeingReport({ rows, meaningOf, disciplineLabel, typeLabel }: QaqcAgeingReportProps) {
+  const [resubmitDays, setResubmitDays] = useState(7)
+  const today = new Date().toISOString().slice(0, 10)
+
+  // Rows without a submission date cannot be aged and are left out
+  const openItems = useMemo(
+    () => rows
+      .filter(r => meaningOf(r.dgt_status) === 'open' && r.dgt_submissiondate)
+      .map(r => {
+        const age = Math.max(0, daysBetween(r.dgt_submissiondate, today) ?? 0)
+        return { record: r, age, bucket: bucketIndex(age) }
+      })
+      .sort((a, b) => b.age - a.age),
+    [rows, meaningOf, today]
+  )
+
+  const matrix = useMemo(() => {
+    const groups = new Map<string, { discipline: string | null; type: string | null; counts: number[] }>()
+    for (const item of openItems) {
+      const key = `${item.record.dgt_discipline ?? ''}|${item.record.dgt_documenttype ?? ''}`
+      if (!groups.has(key)) groups.set(key, { discipline: item.record.dgt_discipline, type: item.record.dgt_documenttype, counts: BUCKETS.map(() => 0) })
+      groups.get(key)!.counts[item.bucket]++
+    }
+    return [...groups.values()]
+      .map(g => ({ ...g, disciplineName: disciplineLabel(g.discipline), typeName: typeLabel(g.type), total: g.counts.reduce((a, b) => a + b, 0) }))
+      .sort((a, b) => a.disciplineName.localeCompare(b.disciplineName) || a.typeName.localeCompare(b.typeName))
+  }, [openItems, disciplineLabel, typeLabel])
+
+  const bucketTotals = BUCKETS.map((_, i) => openItems.filter(item => item.bucket === i).length)
+
+  // The current table holds the latest revision, so a rejected row has not been resubmitted yet
+  const staleRejections = useMemo(
+    () => rows
+      .filter(r => meaningOf(r.dgt_status) === 'rejected')
+      .map(r => ({ record: r, waiting: daysBetween(r.dgt_responsedate, today) }))
+      .filter((r): r is { record: QaqcHse; waiting: number } => r.waiting != null && r.waiting > resubmitDays)
+      .sort((a, b) => b.waiting - a.waiting),
+    [rows, meaningOf, today, resubmitDays]
+  )
+
+  const handleExport = () => {
+    const open = openItems.map(({ record: r, age, bucket }) => [
+      'Open', r.dgt_docref, r.dgt_documentsubject, disciplineLabel(r.dgt_discipline), typeLabel(r.dgt_documenttype),
+      r.dgt_revision, r.dgt_status, r.dgt_submissiondate, r.dgt_responsedate, age, BUCKETS[bucket].label,
+    ])
+    const rejected = staleRejections.map(({ record: r, waiting }) => [
+      'Rejected - awaiting resubmission', r.dgt_docref, r.dgt_documentsubject, disciplineLabel(r.dgt_discipline), typeLabel(r.dgt_documenttype),
+      r.dgt_revision, r.dgt_status, r.dgt_submissiondate, r.dgt_responsedate, waiting, null,
+    ])
+    exportToCsv(
+      `qaqc-ageing-${today}`,
+      ['category', 'doc_ref', 'subject', 'discipline', 'document_type', 'revision', 'status', 'submitted', 'responded', 'days', 'age_bucket'],
+      [...open, ...rejected]
+    )
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+        <span className="text-sm font-semibold text-gray-900">Open document ageing</span>
+        <span className="text-xs text-gray-500">{openItems.length} open, aged from submission</span>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600" title="Flag rejected documents not resubmitted within this many days of the response">
+          Resubmit within
+          <input type="number" min="1" value={resubmitDays} onChange={e => setResubmitDays(Math.max(1, Number(e.target.value) || 1))} className={`${selectCls} w-16`} />
+          days
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={openItems.length === 0 && staleRejections.length === 0}
+          className="ml-auto inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4">
+        {BUCKETS.map((b, i) => (
+          <div key={b.label} className="border border-gray-200 rounded-lg px-4 py-3">
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">{b.label} days</p>
+            <p className={`text-xl font-semibold ${bucketTotals[i] > 0 ? BUCKET_CLASSES[i] : 'text-gray-900'}`}>{bucketTotals[i]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border-t border-gray-200">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-50 border-b border-gray-200">
+              {['Discipline', 'Document type', ...BUCKETS.map(b => `${b.label}d`), 'Total'].map(label => (
+                <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {matrix.length === 0 ? (
+              <tr>
+                <td colSpan={BUCKETS.length + 3} className="px-3 py-6 text-center text-sm text-gray-500">No open documents</td>
+              </tr>
+            ) : matrix.map(g => (
+              <tr key={`${g.discipline}|${g.type}`} className="hover:bg-gray-50">
+                <td className="px-3 py-2 text-gray-900">{g.disciplineName}</td>
+                <td className="px-3 py-2 text-gray-700">{g.typeName}</td>
+                {g.counts.map((c, i) => (
+                  <td key={BUCKETS[i].label} className={`px-3 py-2 ${c > 0 ? BUCKET_CLASSES[i] : 'text-gray-300'}`}>{c}</td>
+                ))}
+                <td className="px-3 py-2 font-medium text-gray-900">{g.total}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t border-gray-200">
+        <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-xs font-medium text-red-800">
+          Rejected, not resubmitted within {resubmitDays} days ({staleRejections.length})
+        </div>
+        {staleRejections.length === 0 ? (
+          <p className="px-4 py-4 text-sm text-gray-500">No overdue resubmissions.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-64">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  {['Doc ref', 'Subject', 'Discipline', 'Rev', 'Rejected on', 'Waiting'].map(label => (
+                    <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {staleRejections.map(({ record: r, waiting }) => (
+                  <tr key={r.dgt_dbp6bd0402qaqchseid} className="bg-red-50/40 hover:bg-red-50">
+                    <td className="px-3 py-2 font-mono text-gray-900 whitespace-nowrap">{r.dgt_docref || '-'}</td>
+                    <td className="px-3 py-2 text-gray-700">{r.dgt_documentsubject || '-'}</td>
+                    <td className="px-3 py-2 text-gray-700">{disciplineLabel(r.dgt_discipline)}</td>
+                    <td className="px-3 py-2 text-gray-700">{r.dgt_revision ?? '-'}</td>
+                    <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{formatDate(r.dgt_responsedate)}</td>
+                    <td className="px-3 py-2 text-red-600 font-medium whitespace-nowrap">{waiting}d</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
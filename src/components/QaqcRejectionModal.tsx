@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import type { QaqcHse } from '@/types/database'
+import type { StatusOption } from '@/hooks/useStatusCodes'
+import { Modal } from '@/components/Modal'
+
+export interface RejectionValues {
+  reason: string
+  responseDate: string
+  /** Next revision to open in _current; null keeps the rejected revision current */
+  resubmission: { submissionDate: string; status: string } | null
+}
+
+interface QaqcRejectionModalProps {
+  record: QaqcHse | null
+  /** Rejected status code being applied */
+  rejectCode: string | null
+  openCodes: StatusOption[]
+  saving: boolean
+  onConfirm: (values: RejectionValues) => void
+  onClose: () => void
+}
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500'
+
+/** Captures the rejection reason and, optionally, the resubmission that opens the next revision */
+export function QaqcRejectionModal({ record, rejectCode, openCodes, saving, onConfirm, onClose }: QaqcRejectionModalProps) {
+  const today = new Date().toISOString().slice(0, 10)
+  const [reason, setReason] = useState('')
+  const [responseDate, setResponseDate] = useState(today)
+  const [resubmit, setResubmit] = useState(true)
+  const [submissionDate, setSubmissionDate] = useState(today)
+  const [status, setStatus] = useState('')
+
+  useEffect(() => {
+    if (!record) return
+    setReason(record.dgt_rejectionreason ?? '')
+    setResponseDate(record.dgt_responsedate?.slice(0, 10) ?? today)
+    setResubmit(true)
+    setSubmissionDate(today)
+    setStatus(openCodes[0]?.code ?? '')
+  }, [record])
+
+  const nextRevision = (record?.dgt_revision ?? 0) + 1
+  const canSave = !!reason.trim() && !!responseDate && (!resubmit || (!!submissionDate && !!status))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+    onConfirm({
+      reason: reason.trim(),
+      responseDate,
+      resubmission: resubmit ? { submissionDate, status } : null,
+    })
+  }
+
+  return (
+    <Modal isOpen={!!record} onClose={onClose} title={`Reject ${record?.dgt_docref ?? ''} (${rejectCode ?? ''})`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="rejection_reason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason for rejection
+          </label>
+          <textarea id="rejection_reason" rows={3} value={reason} onChange={e => setReason(e.target.value)} className={inputCls} autoFocus />
+        </div>
+
+        <div>
+          <label htmlFor="rejection_response_date" className="block text-sm font-medium text-gray-700 mb-1">
+            Response date
+          </label>
+          <input id="rejection_response_date" type="date" value={responseDate} onChange={e => setResponseDate(e.target.value)} className={inputCls} />
+        </div>
+
+        <div className="border-t border-gray-100 pt-4 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={resubmit} onChange={e => setResubmit(e.target.checked)} className="rounded border-gray-300" />
+            Record resubmission as revision {nextRevision}
+          </label>
+          {resubmit && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="resubmission_date" className="block text-sm font-medium text-gray-700 mb-1">
+                  Resubmitted on
+                </label>
+                <input id="resubmission_date" type="date" value={submissionDate} onChange={e => setSubmissionDate(e.target.value)} className={inputCls} />
+              </div>
+              <div>
+                <label htmlFor="resubmission_status" className="block text-sm font-medium text-gray-700 mb-1">
+                  New status
+                </label>
+                <select id="resubmission_status" value={status} onChange={e => setStatus(e.target.value)} className={inputCls}>
+                  {openCodes.map(c => (
+                    <option key={c.code} value={c.code}>{c.label ? `${c.code} - ${c.label}` : c.code}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            {resubmit
+              ? `Revision ${record?.dgt_revision ?? '-'} is kept in history with this reason and revision ${nextRevision} becomes current.`
+              : 'The document stays rejected until a resubmission is recorded.'}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !canSave}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : resubmit ? 'Reject and resubmit' : 'Reject'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
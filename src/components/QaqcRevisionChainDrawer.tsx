@@ -0,0 +1,70 @@
+import type { QaqcHse } from '@/types/database'
+import { RevisionHistoryDrawer } from '@/components/RevisionHistoryDrawer'
+import { useStatusCodes } from '@/hooks/useStatusCodes'
+import { daysBetween } from '@/utils/dates'
+
+interface QaqcRevisionChainDrawerProps {
+  docRef: string | null
+  projectId: string
+  schemaName: string
+  onClose: () => void
+}
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+/** Slide-over showing the submission/rejection chain of a QAQC document from dbp6_000402_qaqc_hse_history */
+export function QaqcRevisionChainDrawer({ docRef, projectId, schemaName, onClose }: QaqcRevisionChainDrawerProps) {
+  const { badgeClass, meaningOf } = useStatusCodes(schemaName, 'qaqc')
+  const isRejected = (r: QaqcHse) => meaningOf(r.dgt_status) === 'rejected'
+
+  const chainStats = (revisions: QaqcHse[]) => {
+    const rejections = revisions.filter(isRejected).length
+    const first = revisions[0]
+    const last = revisions[revisions.length - 1]
+    const elapsed = first && last ? daysBetween(first.dgt_submissiondate, last.dgt_responsedate) : null
+    return [
+      { label: 'Revisions', value: revisions.length },
+      { label: 'Rejections', value: rejections, valueClassName: rejections > 0 ? 'text-red-600' : undefined },
+      { label: 'First sub → last response', value: elapsed != null ? `${elapsed}d` : '-' },
+    ]
+  }
+
+  return (
+    <RevisionHistoryDrawer<QaqcHse>
+      reference={docRef}
+      projectId={projectId}
+      schemaName={schemaName}
+      table="dbp6_000402_qaqc_hse_history"
+      refField="dgt_docref"
+      title="Submission chain"
+      emptyMessage="No history recorded for this document."
+      stats={chainStats}
+      itemKey={r => `${r.dgt_revision}-${r.dgt_dbp6bd0402qaqchseid}`}
+      markerClass={r => (isRejected(r) ? 'bg-red-500' : 'bg-blue-500')}
+      onClose={onClose}
+      renderItem={r => {
+        const turnaround = daysBetween(r.dgt_submissiondate, r.dgt_responsedate)
+        return (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold text-gray-900">Rev {r.dgt_revision ?? '-'}</span>
+              <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${badgeClass(r.dgt_status)}`}>{r.dgt_status || '-'}</span>
+              {turnaround != null && <span className="text-xs text-gray-500">{turnaround} days to respond</span>}
+            </div>
+            <dl className="mt-1 grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs">
+              <dt className="text-gray-500">Submitted</dt>
+              <dd className="text-gray-800">{formatDate(r.dgt_submissiondate)}</dd>
+              <dt className="text-gray-500">Response</dt>
+              <dd className="text-gray-800">{r.dgt_responsedate ? formatDate(r.dgt_responsedate) : <span className="text-amber-600">Awaiting response</span>}</dd>
+            </dl>
+            {isRejected(r) && (
+              <p className="mt-1.5 px-2 py-1.5 text-xs bg-red-50 border border-red-100 rounded text-red-800">
+                {r.dgt_rejectionreason || 'No reason recorded'}
+              </p>
+            )}
+          </>
+        )
+      }}
+    />
+  )
+}
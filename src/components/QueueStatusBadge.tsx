@@ -0,0 +1,27 @@
+const statusConfig: Record<string, { dot: string; label: string; text: string }> = {
+  pending:    { dot: 'bg-yellow-400',              label: 'Pending',    text: 'text-yellow-700' },
+  running:    { dot: 'bg-blue-500 animate-pulse',  label: 'Running',    text: 'text-blue-700'   },
+  processing: { dot: 'bg-blue-500 animate-pulse',  label: 'Processing', text: 'text-blue-700'   },
+  uploaded:   { dot: 'bg-green-500',               label: 'Uploaded',   text: 'text-green-700'  },
+  completed:  { dot: 'bg-green-500',               label: 'Completed',  text: 'text-green-700'  },
+  failed:     { dot: 'bg-red-500',                 label: 'Failed',     text: 'text-red-700'    },
+  error:      { dot: 'bg-red-500',                 label: 'Error',      text: 'text-red-700'    },
+}
+
+/** Display label for a queue or upload status, falling back to the raw value */
+export const queueStatusLabel = (status: string) => statusConfig[status.toLowerCase()]?.label ?? status
+
+interface QueueStatusBadgeProps {
+  status: string | null
+  className?: string
+}
+
+export function QueueStatusBadge({ status, className = '' }: QueueStatusBadgeProps) {
+  const cfg = statusConfig[(status || '').toLowerCase()] ?? { dot: 'bg-gray-400', label: status || '-', text: 'text-gray-600' }
+  return (
+    <span className={`inline-flex items-center gap-1.5 font-medium ${cfg.text} ${className}`}>
+      <span className={`w-2 h-2 rounded-full shrink-0 ${cfg.dot}`} />
+      {cfg.label}
+    </span>
+  )
+}
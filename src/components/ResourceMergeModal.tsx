@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { ActualResources, ResourceCatalogueEntry } from '@/types/database'
+
+export interface ResourceVariant {
+  resource_name: string | null
+  resource_code: string | null
+}
+
+interface ResourceMergeModalProps {
+  isOpen: boolean
+  rows: ActualResources[]
+  catalogue: ResourceCatalogueEntry[]
+  saving: boolean
+  onMerge: (variants: ResourceVariant[], target: ResourceCatalogueEntry) => void
+  onClose: () => void
+}
+
+interface VariantSummary extends ResourceVariant {
+  key: string
+  /** Spelling-insensitive key; variants sharing it are likely the same resource */
+  group: string
+  rowCount: number
+  weeks: number[]
+  inCatalogue: boolean
+}
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+const variantKey = (v: ResourceVariant) => `${v.resource_name ?? ''}\u0000${v.resource_code ?? ''}`
+const normaliseName = (name: string | null) => (name ?? '').toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/** Lists every name/code spelling used in Actual Resources so duplicates can be re-pointed at one catalogue entry */
+export function ResourceMergeModal({ isOpen, rows, catalogue, saving, onMerge, onClose }: ResourceMergeModalProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [targetId, setTargetId] = useState('')
+  const [search, setSearch] = useState('')
+  const [duplicatesOnly, setDuplicatesOnly] = useState(true)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setSelected(new Set())
+    setTargetId('')
+  }, [isOpen, rows])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleEscape = (e: KeyboardEvent) => { if (e.key === 'Escape' && !saving) onClose() }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, saving, onClose])
+
+  const variants = useMemo<VariantSummary[]>(() => {
+    const catalogueKeys = new Set(catalogue.map(c => variantKey(c)))
+    const byKey = new Map<string, VariantSummary>()
+    for (const r of rows) {
+      const key = variantKey(r)
+      let v = byKey.get(key)
+      if (!v) {
+        v = {
+          key,
+          resource_name: r.resource_name,
+          resource_code: r.resource_code,
+          group: normaliseName(r.resource_name),
+          rowCount: 0,
+          weeks: [],
+          inCatalogue: catalogueKeys.has(key),
+        }
+        byKey.set(key, v)
+      }
+      v.rowCount++
+      if (r.week_num != null && !v.weeks.includes(r.week_num)) v.weeks.push(r.week_num)
+    }
+    return [...byKey.values()].sort((a, b) => a.group.localeCompare(b.group) || b.rowCount - a.rowCount)
+  }, [rows, catalogue])
+
+  const groupSizes = useMemo(() => {
+    const sizes = new Map<string, number>()
+    variants.forEach(v => sizes.set(v.group, (sizes.get(v.group) ?? 0) + 1))
+    return sizes
+  }, [variants])
+
+  // A variant is a likely duplicate when another spelling normalises to the same name, or it is not in the catalogue yet
+  const isSuspect = (v: VariantSummary) => (groupSizes.get(v.group) ?? 0) > 1 || (catalogue.length > 0 && !v.inCatalogue)
+
+  const visible = variants.filter(v => {
+    if (duplicatesOnly && !isSuspect(v)) return false
+    if (!search) return true
+    const term = search.toLowerCase()
+    return (v.resource_name ?? '').toLowerCase().includes(term) || (v.resource_code ?? '').toLowerCase().includes(term)
+  })
+
+  if (!isOpen) return null
+
+  const target = catalogue.find(c => String(c.id) === targetId) ?? null
+  const chosen = variants.filter(v => selected.has(v.key))
+  const affectedRows = chosen.reduce((sum, v) => sum + v.rowCount, 0)
+  const toggle = (key: string) => setSelected(prev => {
+    const next = new Set(prev)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    return next
+  })
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={() => !saving && onClose()} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Merge resource names</h3>
+              <p className="text-xs text-gray-500">Tick the spellings that mean the same resource and pick the catalogue entry they should become.</p>
+            </div>
+            <button onClick={onClose} disabled={saving} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+            <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search names or codes" className={`${selectCls} w-56`} />
+            <label className="flex items-center gap-1.5 text-xs text-gray-600">
+              <input type="checkbox" checked={duplicatesOnly} onChange={e => setDuplicatesOnly(e.target.checked)} className="rounded border-gray-300" />
+              Likely duplicates only
+            </label>
+            <span className="ml-auto text-xs text-gray-500">{visible.length} of {variants.length} spellings</span>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 w-8"></th>
+                  {['Name', 'Code', 'Rows', 'Weeks', ''].map(label => (
+                    <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-6 text-center text-sm text-gray-500">No {duplicatesOnly ? 'likely duplicates' : 'resource names'} found</td>
+                  </tr>
+                ) : visible.map((v, i) => (
+                  <tr key={v.key} className={`${selected.has(v.key) ? 'bg-blue-50' : 'hover:bg-gray-50'} ${i > 0 && visible[i - 1].group !== v.group ? 'border-t-2 border-gray-200' : ''}`}>
+                    <td className="px-3 py-2">
+                      <input type="checkbox" checked={selected.has(v.key)} onChange={() => toggle(v.key)} className="rounded border-gray-300" />
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">{v.resource_name || <span className="italic text-gray-400">blank</span>}</td>
+                    <td className="px-3 py-2 font-mono text-gray-700">{v.resource_code || '-'}</td>
+                    <td className="px-3 py-2 text-gray-700">{v.rowCount}</td>
+                    <td className="px-3 py-2 text-gray-500">
+                      {v.weeks.length === 0 ? '-' : `W${Math.min(...v.weeks)}${v.weeks.length > 1 ? `–W${Math.max(...v.weeks)}` : ''}`}
+                    </td>
+                    <td className="px-3 py-2">
+                      {v.inCatalogue && <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">Catalogue</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-end gap-3 p-4 border-t">
+            <span className="mr-auto text-xs text-gray-500">
+              {chosen.length} spelling{chosen.length !== 1 ? 's' : ''} selected, {affectedRows} row{affectedRows !== 1 ? 's' : ''}
+            </span>
+            <select value={targetId} onChange={e => setTargetId(e.target.value)} className={selectCls} disabled={catalogue.length === 0}>
+              <option value="">{catalogue.length === 0 ? 'Catalogue is empty' : 'Merge into…'}</option>
+              {catalogue.map(c => <option key={c.id} value={c.id}>{c.resource_code} - {c.resource_name}</option>)}
+            </select>
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => target && onMerge(chosen.map(({ resource_name, resource_code }) => ({ resource_name, resource_code })), target)}
+              disabled={saving || !target || chosen.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Merging...' : `Merge ${affectedRows} row${affectedRows !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+
+export interface HistoryStat {
+  label: string
+  value: ReactNode
+  valueClassName?: string
+}
+
+interface RevisionHistoryDrawerProps<T> {
+  /** Document reference to show; null keeps the drawer closed */
+  reference: string | null
+  projectId: string
+  schemaName: string
+  /** History table holding one row per revision, ordered by dgt_revision */
+  table: string
+  refField: string
+  title: string
+  emptyMessage: string
+  stats: (revisions: T[]) => HistoryStat[]
+  itemKey: (revision: T) => string
+  /** Colour of the timeline marker; blue by default */
+  markerClass?: (revision: T) => string
+  renderItem: (revision: T) => ReactNode
+  onClose: () => void
+}
+
+/** Slide-over shell for a register's revision history: loads the rows, then shows summary stats above a timeline */
+export function RevisionHistoryDrawer<T>({
+  reference,
+  projectId,
+  schemaName,
+  table,
+  refField,
+  title,
+  emptyMessage,
+  stats,
+  itemKey,
+  markerClass,
+  renderItem,
+  onClose,
+}: RevisionHistoryDrawerProps<T>) {
+  const [revisions, setRevisions] = useState<T[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!reference) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    schemaClient(schemaName)
+      .from(table)
+      .select('*')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .eq(refField, reference)
+      .order('dgt_revision', { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) setError(error.message)
+        else setRevisions((data || []) as T[])
+        setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [reference, projectId, schemaName, table, refField])
+
+  useEffect(() => {
+    if (!reference) return
+    const handleEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [reference, onClose])
+
+  if (!reference) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-start justify-between p-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+            <p className="text-sm text-gray-500 font-mono">{reference}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : error ? (
+          <p className="p-4 text-sm text-red-600">Failed to fetch history: {error}</p>
+        ) : revisions.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">{emptyMessage}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            <div className="grid grid-cols-3 gap-3 p-4 border-b border-gray-100">
+              {stats(revisions).map(stat => (
+                <div key={stat.label}>
+                  <p className="text-xs text-gray-500 uppercase tracking-wide">{stat.label}</p>
+                  <p className={`text-lg font-semibold ${stat.valueClassName ?? 'text-gray-900'}`}>{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <ol className="relative m-4 border-l border-gray-200">
+              {revisions.map(r => (
+                <li key={itemKey(r)} className="mb-5 ml-4">
+                  <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${markerClass?.(r) ?? 'bg-blue-500'}`} />
+                  {renderItem(r)}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
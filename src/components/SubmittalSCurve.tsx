@@ -0,0 +1,139 @@
+import { useMemo } from 'react'
+import type { Engineering } from '@/types/database'
+import { weekCommencing } from '@/utils/dates'
+import { exportToCsv } from '@/utils/csv'
+
+interface SubmittalSCurveProps {
+  rows: Engineering[]
+  startDate: string | null
+  dataDate: string | null
+  /** Whether a returned status code counts as an approval */
+  isApproved: (status: string | null) => boolean
+}
+
+type SeriesKey = 'plannedSubmissions' | 'actualSubmissions' | 'plannedApprovals' | 'actualApprovals'
+
+interface WeekPoint extends Record<SeriesKey, number> {
+  week: string
+}
+
+const SERIES: { key: SeriesKey; label: string; colour: string; dashed: boolean }[] = [
+  { key: 'plannedSubmissions', label: 'Planned submissions', colour: '#3b82f6', dashed: true },
+  { key: 'actualSubmissions', label: 'Actual submissions', colour: '#1d4ed8', dashed: false },
+  { key: 'plannedApprovals', label: 'Planned approvals', colour: '#22c55e', dashed: true },
+  { key: 'actualApprovals', label: 'Actual approvals', colour: '#15803d', dashed: false },
+]
+
+const WIDTH = 900
+const HEIGHT = 320
+const PAD = { top: 16, right: 16, bottom: 40, left: 44 }
+const WEEK_MS = 7 * 86_400_000
+
+const addWeek = (week: string) => new Date(Date.parse(week) + WEEK_MS).toISOString().slice(0, 10)
+
+/** Cumulative weekly S-curve of planned vs actual engineering submissions and approvals */
+export function SubmittalSCurve({ rows, startDate, dataDate, isApproved }: SubmittalSCurveProps) {
+  const points = useMemo(() => {
+    const events: Record<SeriesKey, (string | null)[]> = {
+      plannedSubmissions: rows.map(r => weekCommencing(r.dgt_plannedsubmissiondate)),
+      actualSubmissions: rows.map(r => weekCommencing(r.dgt_actualsubmissiondate)),
+      plannedApprovals: rows.map(r => weekCommencing(r.dgt_plannedapprovaldate)),
+      actualApprovals: rows.map(r => (isApproved(r.dgt_status) ? weekCommencing(r.dgt_actualreturndate) : null)),
+    }
+    const allWeeks = Object.values(events).flat().filter((w): w is string => !!w).sort()
+    // Project start to data date; fall back to the span of the data when either is missing
+    const first = weekCommencing(startDate) ?? allWeeks[0]
+    const last = weekCommencing(dataDate) ?? allWeeks[allWeeks.length - 1]
+    if (!first || !last || first > last) return []
+
+    const counts = Object.fromEntries(SERIES.map(s => [s.key, new Map<string, number>()])) as Record<SeriesKey, Map<string, number>>
+    for (const s of SERIES) {
+      for (const w of events[s.key]) {
+        if (!w) continue
+        // Anything before the first week counts towards the opening total
+        const key = w < first ? first : w
+        counts[s.key].set(key, (counts[s.key].get(key) ?? 0) + 1)
+      }
+    }
+
+    const result: WeekPoint[] = []
+    const running: Record<SeriesKey, number> = { plannedSubmissions: 0, actualSubmissions: 0, plannedApprovals: 0, actualApprovals: 0 }
+    for (let week = first; week <= last; week = addWeek(week)) {
+      for (const s of SERIES) running[s.key] += counts[s.key].get(week) ?? 0
+      result.push({ week, ...running })
+    }
+    return result
+  }, [rows, startDate, dataDate, isApproved])
+
+  const handleExport = () => {
+    exportToCsv(
+      'engineering-s-curve',
+      ['week_commencing', ...SERIES.map(s => s.key)],
+      points.map(p => [p.week, ...SERIES.map(s => p[s.key])])
+    )
+  }
+
+  if (points.length === 0) {
+    return <p className="px-4 py-8 text-center text-sm text-gray-500">No submission dates to plot.</p>
+  }
+
+  const maxY = Math.max(1, ...points.map(p => Math.max(...SERIES.map(s => p[s.key]))))
+  const plotW = WIDTH - PAD.left - PAD.right
+  const plotH = HEIGHT - PAD.top - PAD.bottom
+  const x = (i: number) => PAD.left + (points.length === 1 ? plotW / 2 : (i / (points.length - 1)) * plotW)
+  const y = (v: number) => PAD.top + plotH - (v / maxY) * plotH
+  const yTicks = Array.from({ length: 5 }, (_, i) => Math.round((maxY / 4) * i))
+  const labelEvery = Math.max(1, Math.ceil(points.length / 12))
+  const latest = points[points.length - 1]
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        {SERIES.map(s => (
+          <span key={s.key} className="inline-flex items-center gap-1.5 text-xs text-gray-600">
+            <svg width="20" height="6"><line x1="0" y1="3" x2="20" y2="3" stroke={s.colour} strokeWidth="2" strokeDasharray={s.dashed ? '4 3' : undefined} /></svg>
+            {s.label}
+            <span className="font-semibold text-gray-900">{latest[s.key]}</span>
+          </span>
+        ))}
+        <button
+          onClick={handleExport}
+          className="ml-auto inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {yTicks.map(t => (
+          <g key={t}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#e5e7eb" />
+            <text x={PAD.left - 6} y={y(t) + 3} textAnchor="end" className="fill-gray-500" fontSize="10">{t}</text>
+          </g>
+        ))}
+        {points.map((p, i) => i % labelEvery === 0 && (
+          <text key={p.week} x={x(i)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle" className="fill-gray-500" fontSize="10">
+            {new Date(p.week).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit', timeZone: 'UTC' })}
+          </text>
+        ))}
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#9ca3af" />
+        {SERIES.map(s => (
+          <polyline
+            key={s.key}
+            fill="none"
+            stroke={s.colour}
+            strokeWidth="2"
+            strokeDasharray={s.dashed ? '6 4' : undefined}
+            points={points.map((p, i) => `${x(i)},${y(p[s.key])}`).join(' ')}
+          />
+        ))}
+        {/* Hover targets, one per week */}
+        {points.map((p, i) => (
+          <rect key={p.week} x={x(i) - plotW / points.length / 2} y={PAD.top} width={plotW / points.length} height={plotH} fill="transparent">
+            <title>{[`w/c ${p.week}`, ...SERIES.map(s => `${s.label}: ${p[s.key]}`)].join('\n')}</title>
+          </rect>
+        ))}
+      </svg>
+    </div>
+  )
+}
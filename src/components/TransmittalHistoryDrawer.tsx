@@ -0,0 +1,72 @@
+import type { Engineering } from '@/types/database'
+import { RevisionHistoryDrawer } from '@/components/RevisionHistoryDrawer'
+import { useStatusCodes } from '@/hooks/useStatusCodes'
+import { daysBetween } from '@/utils/dates'
+
+interface TransmittalHistoryDrawerProps {
+  transmittalRef: string | null
+  projectId: string
+  schemaName: string
+  onClose: () => void
+}
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+const transmittalStats = (revisions: Engineering[]) => {
+  const turnarounds = revisions
+    .map(r => daysBetween(r.dgt_actualsubmissiondate, r.dgt_actualreturndate))
+    .filter((d): d is number => d != null)
+  const averageTurnaround = turnarounds.length ? Math.round(turnarounds.reduce((a, b) => a + b, 0) / turnarounds.length) : null
+  const first = revisions[0]
+  const last = revisions[revisions.length - 1]
+  const elapsed = first && last ? daysBetween(first.dgt_actualsubmissiondate, last.dgt_actualreturndate) : null
+  return [
+    { label: 'Cycles', value: revisions.length },
+    { label: 'Avg turnaround', value: averageTurnaround != null ? `${averageTurnaround}d` : '-' },
+    { label: 'First sub → last return', value: elapsed != null ? `${elapsed}d` : '-' },
+  ]
+}
+
+/** Slide-over listing every revision of a transmittal from dbp6_000401_engineering_history */
+export function TransmittalHistoryDrawer({ transmittalRef, projectId, schemaName, onClose }: TransmittalHistoryDrawerProps) {
+  const { badgeClass } = useStatusCodes(schemaName, 'engineering')
+
+  return (
+    <RevisionHistoryDrawer<Engineering>
+      reference={transmittalRef}
+      projectId={projectId}
+      schemaName={schemaName}
+      table="dbp6_000401_engineering_history"
+      refField="dgt_transmittalref"
+      title="Revision history"
+      emptyMessage="No history recorded for this transmittal."
+      stats={transmittalStats}
+      itemKey={r => `${r.dgt_revision}-${r.dgt_dbp6bd041engineeringid}`}
+      onClose={onClose}
+      renderItem={r => {
+        const turnaround = daysBetween(r.dgt_actualsubmissiondate, r.dgt_actualreturndate)
+        const lateBy = daysBetween(r.dgt_plannedapprovaldate, r.dgt_actualreturndate)
+        return (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold text-gray-900">Rev {r.dgt_revision ?? '-'}</span>
+              <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${badgeClass(r.dgt_status)}`}>{r.dgt_status || '-'}</span>
+              {turnaround != null && <span className="text-xs text-gray-500">{turnaround} days in review</span>}
+            </div>
+            <dl className="mt-1 grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs">
+              <dt className="text-gray-500">Submitted</dt>
+              <dd className="text-gray-800">{formatDate(r.dgt_actualsubmissiondate)}</dd>
+              <dt className="text-gray-500">Returned</dt>
+              <dd className="text-gray-800">{r.dgt_actualreturndate ? formatDate(r.dgt_actualreturndate) : <span className="text-amber-600">Awaiting return</span>}</dd>
+              <dt className="text-gray-500">Planned approval</dt>
+              <dd className={lateBy != null && lateBy > 0 ? 'text-red-600' : 'text-gray-800'}>
+                {formatDate(r.dgt_plannedapprovaldate)}
+                {lateBy != null && lateBy > 0 && ` (${lateBy}d late)`}
+              </dd>
+            </dl>
+          </>
+        )
+      }}
+    />
+  )
+}
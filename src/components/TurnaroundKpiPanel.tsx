@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react'
+import { daysBetween } from '@/utils/dates'
+
+export interface TurnaroundItem {
+  discipline: string | null
+  type: string | null
+  week: string | null
+  submitted: string | null
+  returned: string | null
+  /** Planned return date; when absent the target review period from submission applies */
+  due: string | null
+  /** Returned with a status code whose meaning is rejected */
+  rejected: boolean
+}
+
+interface TurnaroundKpiPanelProps {
+  items: TurnaroundItem[]
+  disciplineLabel: (code: string | null) => string
+  typeLabel: (code: string | null) => string
+  typeHeading: string
+  weekHeading: string
+}
+
+interface Kpis {
+  submitted: number
+  returned: number
+  average: number | null
+  median: number | null
+  late: number
+  rejected: number
+  overdue: number
+}
+
+type Breakdown = 'discipline' | 'type'
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+/** YYYY-MM-DD `days` after the date's day, or null when it is not a date */
+const addDays = (date: string, days: number): string | null => {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`)
+  if (isNaN(d.getTime())) return null
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+const computeKpis = (items: TurnaroundItem[], targetDays: number, today: string): Kpis => {
+  const durations: number[] = []
+  let late = 0
+  let rejected = 0
+  let overdue = 0
+  let submitted = 0
+  for (const item of items) {
+    if (!item.submitted) continue
+    const due = item.due ?? addDays(item.submitted, targetDays)
+    if (!due) continue
+    submitted++
+    if (item.returned) {
+      // late and rejected share the returned count as denominator, so only count rows with a turnaround
+      const days = daysBetween(item.submitted, item.returned)
+      if (days == null) continue
+      durations.push(days)
+      if (item.returned.slice(0, 10) > due.slice(0, 10)) late++
+      if (item.rejected) rejected++
+    } else if (due.slice(0, 10) < today) {
+      overdue++
+    }
+  }
+  durations.sort((a, b) => a - b)
+  const mid = Math.floor(durations.length / 2)
+  return {
+    submitted,
+    returned: durations.length,
+    average: durations.length ? Math.round((durations.reduce((a, b) => a + b, 0) / durations.length) * 10) / 10 : null,
+    median: durations.length ? (durations.length % 2 ? durations[mid] : (durations[mid - 1] + durations[mid]) / 2) : null,
+    late,
+    rejected,
+    overdue,
+  }
+}
+
+const pct = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : '-')
+
+/** Review turnaround KPIs for a submittal register, broken down by discipline or type */
+export function TurnaroundKpiPanel({ items, disciplineLabel, typeLabel, typeHeading, weekHeading }: TurnaroundKpiPanelProps) {
+  const [week, setWeek] = useState('')
+  const [targetDays, setTargetDays] = useState(14)
+  const [breakdown, setBreakdown] = useState<Breakdown>('discipline')
+  const today = new Date().toISOString().slice(0, 10)
+
+  const weeks = useMemo(
+    () => [...new Set(items.map(i => i.week).filter((w): w is string => !!w))].sort((a, b) => b.localeCompare(a, undefined, { numeric: true })),
+    [items]
+  )
+
+  const scoped = useMemo(() => (week ? items.filter(i => i.week === week) : items), [items, week])
+  const totals = useMemo(() => computeKpis(scoped, targetDays, today), [scoped, targetDays, today])
+
+  const rows = useMemo(() => {
+    const groups = new Map<string, TurnaroundItem[]>()
+    for (const item of scoped) {
+      const key = (breakdown === 'discipline' ? item.discipline : item.type) ?? ''
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(item)
+    }
+    return [...groups.entries()]
+      .map(([key, group]) => ({
+        key,
+        label: breakdown === 'discipline' ? disciplineLabel(key || null) : typeLabel(key || null),
+        kpis: computeKpis(group, targetDays, today),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [scoped, breakdown, targetDays, today, disciplineLabel, typeLabel])
+
+  const cards = [
+    { label: 'Avg turnaround', value: totals.average != null ? `${totals.average}d` : '-' },
+    { label: 'Median turnaround', value: totals.median != null ? `${totals.median}d` : '-' },
+    { label: 'Returned late', value: pct(totals.late, totals.returned), sub: `${totals.late} of ${totals.returned}` },
+    { label: 'Rejected', value: pct(totals.rejected, totals.returned), sub: `${totals.rejected} of ${totals.returned}` },
+    { label: 'Overdue', value: String(totals.overdue), sub: 'awaiting return past due' },
+  ]
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+        <span className="text-sm font-semibold text-gray-900">Review turnaround</span>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+          {weekHeading}
+          <select value={week} onChange={e => setWeek(e.target.value)} className={selectCls}>
+            <option value="">All</option>
+            {weeks.map(w => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600" title="Used when a submission has no planned return date">
+          Target review
+          <input type="number" min="1" value={targetDays} onChange={e => setTargetDays(Math.max(1, Number(e.target.value) || 1))} className={`${selectCls} w-16`} />
+          days
+        </label>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden ml-auto">
+          {(['discipline', 'type'] as Breakdown[]).map(b => (
+            <button
+              key={b}
+              onClick={() => setBreakdown(b)}
+              className={`h-8 px-3 text-xs font-medium ${breakdown === b ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              By {b === 'discipline' ? 'discipline' : typeHeading.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 p-4">
+        {cards.map(c => (
+          <div key={c.label} className="border border-gray-200 rounded-lg px-4 py-3">
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">{c.label}</p>
+            <p className="text-xl font-semibold text-gray-900">{c.value}</p>
+            {c.sub && <p className="text-xs text-gray-400">{c.sub}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border-t border-gray-200">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-gray-50 border-b border-gray-200">
+              {[breakdown === 'discipline' ? 'Discipline' : typeHeading, 'Submitted', 'Returned', 'Avg', 'Median', 'Late', 'Rejected', 'Overdue'].map(label => (
+                <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-3 py-6 text-center text-sm text-gray-500">No submissions</td>
+              </tr>
+            ) : rows.map(r => (
+              <tr key={r.key} className="hover:bg-gray-50">
+                <td className="px-3 py-2 text-gray-900">{r.label}</td>
+                <td className="px-3 py-2 text-gray-700">{r.kpis.submitted}</td>
+                <td className="px-3 py-2 text-gray-700">{r.kpis.returned}</td>
+                <td className="px-3 py-2 text-gray-700">{r.kpis.average != null ? `${r.kpis.average}d` : '-'}</td>
+                <td className="px-3 py-2 text-gray-700">{r.kpis.median != null ? `${r.kpis.median}d` : '-'}</td>
+                <td className={`px-3 py-2 ${r.kpis.late > 0 ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                  {r.kpis.late} <span className="text-gray-400 font-normal">({pct(r.kpis.late, r.kpis.returned)})</span>
+                </td>
+                <td className="px-3 py-2 text-gray-700">
+                  {r.kpis.rejected} <span className="text-gray-400">({pct(r.kpis.rejected, r.kpis.returned)})</span>
+                </td>
+                <td className={`px-3 py-2 ${r.kpis.overdue > 0 ? 'text-red-600 font-medium' : 'text-gray-700'}`}>{r.kpis.overdue}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import type { ActualResources } from '@/types/database'
+
+interface WeekRollForwardModalProps {
+  /** Rows of the week being copied; null keeps the modal closed */
+  sourceRows: ActualResources[] | null
+  sourceWeek: number | null
+  saving: boolean
+  disciplineLabel: (code: number | null) => string
+  typeLabel: (code: number | null) => string
+  onConfirm: (rows: { source: ActualResources; count: number | null }[]) => void
+  onCancel: () => void
+}
+
+const inputCls = 'w-20 h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+/** Grid of last week's resources with editable counts, used to start the next week in one insert */
+export function WeekRollForwardModal({ sourceRows, sourceWeek, saving, disciplineLabel, typeLabel, onConfirm, onCancel }: WeekRollForwardModalProps) {
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [removed, setRemoved] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!sourceRows) return
+    setCounts(Object.fromEntries(sourceRows.map(r => [r.dgt_dbp6ud0501actualresourcesid, r.dgt_resourcecount?.toString() ?? ''])))
+    setRemoved(new Set())
+  }, [sourceRows])
+
+  useEffect(() => {
+    if (!sourceRows) return
+    const handleEscape = (e: KeyboardEvent) => { if (e.key === 'Escape' && !saving) onCancel() }
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [sourceRows, saving, onCancel])
+
+  if (!sourceRows || sourceWeek === null) return null
+
+  const targetWeek = sourceWeek + 1
+  const kept = sourceRows.filter(r => !removed.has(r.dgt_dbp6ud0501actualresourcesid))
+  const total = kept.reduce((sum, r) => sum + (Number(counts[r.dgt_dbp6ud0501actualresourcesid]) || 0), 0)
+  const toggleRemoved = (id: string) => setRemoved(prev => {
+    const next = new Set(prev)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    return next
+  })
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={() => !saving && onCancel()} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Start week {targetWeek}</h3>
+              <p className="text-xs text-gray-500">Copied from week {sourceWeek}. Adjust counts, then create the week in one go.</p>
+            </div>
+            <button onClick={onCancel} disabled={saving} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {['Resource', 'Code', 'Discipline', 'Type', `Week ${sourceWeek}`, `Week ${targetWeek}`, ''].map(label => (
+                    <th key={label} className="px-3 py-2 text-left font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sourceRows.map(r => {
+                  const id = r.dgt_dbp6ud0501actualresourcesid
+                  const isRemoved = removed.has(id)
+                  return (
+                    <tr key={id} className={isRemoved ? 'bg-gray-50 text-gray-400' : ''}>
+                      <td className={`px-3 py-2 ${isRemoved ? 'line-through' : 'text-gray-900'}`}>{r.resource_name || '-'}</td>
+                      <td className="px-3 py-2 font-mono">{r.resource_code || '-'}</td>
+                      <td className="px-3 py-2">{disciplineLabel(r.dgt_resourcediscipline)}</td>
+                      <td className="px-3 py-2">{typeLabel(r.dgt_resourcetype)}</td>
+                      <td className="px-3 py-2 text-gray-500">{r.dgt_resourcecount ?? '-'}</td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          value={counts[id] ?? ''}
+                          disabled={isRemoved}
+                          onChange={e => setCounts(prev => ({ ...prev, [id]: e.target.value }))}
+                          className={inputCls}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button onClick={() => toggleRemoved(id)} className="text-xs font-medium text-gray-500 hover:text-gray-700">
+                          {isRemoved ? 'Restore' : 'Remove'}
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-end gap-3 p-4 border-t">
+            <span className="mr-auto text-xs text-gray-500">{kept.length} resource{kept.length !== 1 ? 's' : ''}, headcount {total}</span>
+            <button
+              onClick={onCancel}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(kept.map(r => {
+                const value = counts[r.dgt_dbp6ud0501actualresourcesid]
+                return { source: r, count: value === '' || value === undefined ? null : parseInt(value) }
+              }))}
+              disabled={saving || kept.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : `Create week ${targetWeek}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
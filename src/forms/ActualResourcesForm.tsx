@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { schemaClient } from '@/lib/supabase'
-import type { ActualResources, Discipline, Type } from '@/types/database'
+import type { ActualResources, Discipline, ResourceCatalogueEntry, Type } from '@/types/database'
 import { Modal } from '@/components/Modal'
 import { Pagination } from '@/components/Pagination'
 import { SearchFilter } from '@/components/SearchFilter'
@@ -13,6 +13,10 @@ import { ColumnFilter } from '@/components/ColumnFilter'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { CsvControls } from '@/components/CsvControls'
 import { exportToCsv } from '@/utils/csv'
+import { ManpowerHistogram } from '@/components/ManpowerHistogram'
+import { PlannedManpowerComparison } from '@/components/PlannedManpowerComparison'
+import { WeekRollForwardModal } from '@/components/WeekRollForwardModal'
+import { ResourceMergeModal, type ResourceVariant } from '@/components/ResourceMergeModal'
 
 interface ActualResourcesFormData {
   dgt_dbp6bd00projectdataid: string
@@ -43,6 +47,10 @@ interface EditValues {
 
 const ITEMS_PER_PAGE = 15
 
+// A merge rewrites the weekly rows and their history copies together
+const MERGE_TABLES = ['dbp6_000501_actualresources_current', 'dbp6_000501_actualresources_history'] as const
+const MERGE_ID_CHUNK = 200
+
 type SortField = 'resource_name' | 'dgt_resourcediscipline' | 'dgt_resourcetype' | 'dgt_resourcecount' | 'dgt_sequential'
 type SortDirection = 'asc' | 'desc'
 
@@ -80,6 +88,13 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
   const [types, setTypes] = useState<Type[]>([])
   const [showDisciplineLegend, setShowDisciplineLegend] = useState(false)
   const [showTypeLegend, setShowTypeLegend] = useState(false)
+  const [showHistogram, setShowHistogram] = useState(false)
+  const [showPlanComparison, setShowPlanComparison] = useState(false)
+  const [rollForwardRows, setRollForwardRows] = useState<ActualResources[] | null>(null)
+  const [rollingForward, setRollingForward] = useState(false)
+  const [catalogue, setCatalogue] = useState<ResourceCatalogueEntry[]>([])
+  const [showMerge, setShowMerge] = useState(false)
+  const [merging, setMerging] = useState(false)
   // Column filters
   const [filters, setFilters] = useState({
     resource_name: '',
@@ -114,6 +129,9 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
     setValue,
     formState: { errors, isDirty },
   } = useForm<ActualResourcesFormData>()
+  const resourceCodeField = register('resource_code', {
+    required: catalogue.length > 0 ? 'Select a resource from the catalogue' : false,
+  })
 
   const handleCancelModal = () => {
     if (isDirty) {
@@ -140,7 +158,7 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
   }
 
   const fetchDisciplines = async () => {
-    const { data: records } = await supabase.from('dbp6_0018_discipline').select('id, discipline_code, discipline_name').order('discipline_code', { ascending: true })
+    const { data: records } = await supabase.from('dbp6_0018_discipline').select('id, discipline_code, discipline_name, abbreviation').order('discipline_code', { ascending: true })
     setDisciplines(records || [])
   }
 
@@ -149,13 +167,21 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
     setTypes(records || [])
   }
 
+  const fetchCatalogue = async () => {
+    const { data: records } = await supabase.from('dbp6_resource_catalogue').select('*').order('resource_code', { ascending: true })
+    setCatalogue((records as ResourceCatalogueEntry[]) || [])
+  }
+
   useEffect(() => {
     setSelectedWeek(null)
     fetchData()
     fetchDisciplines()
     fetchTypes()
+    fetchCatalogue()
   }, [projectId])
 
+  const catalogueEntry = (code: string) => catalogue.find(c => c.resource_code === code)
+
   const filteredAndSortedData = useMemo(() => {
     let result = data
 
@@ -399,6 +425,125 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
     setDeleteConfirm(null)
   }
 
+  const openRollForward = () => {
+    if (latestWeek === null) return
+    const rows = data
+      .filter(r => r.week_num === latestWeek)
+      .sort((a, b) => (a.dgt_sequential ?? Infinity) - (b.dgt_sequential ?? Infinity) || (a.resource_name ?? '').localeCompare(b.resource_name ?? ''))
+    setRollForwardRows(rows)
+  }
+
+  const handleRollForward = async (rows: { source: ActualResources; count: number | null }[]) => {
+    if (latestWeek === null) return
+    const targetWeek = latestWeek + 1
+    setRollingForward(true)
+
+    // Re-check the server so a week started elsewhere since the last fetch is never added to
+    const { count, error: checkErr } = await supabase
+      .from('dbp6_000501_actualresources_current')
+      .select('dgt_dbp6ud0501actualresourcesid', { count: 'exact', head: true })
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .eq('week_num', targetWeek)
+    if (checkErr) {
+      showError('Failed to check week ' + targetWeek + ': ' + checkErr.message)
+      setRollingForward(false)
+      return
+    }
+    if (count) {
+      showError(`Week ${targetWeek} already has ${count} record${count !== 1 ? 's' : ''}; refresh and edit it instead`)
+      setRollingForward(false)
+      return
+    }
+
+    const inserts = rows.map(({ source, count }) => ({
+      dgt_dbp6bd00projectdataid: projectId,
+      resource_name: source.resource_name,
+      resource_code: source.resource_code,
+      dgt_resourcediscipline: source.dgt_resourcediscipline,
+      dgt_resourcetype: source.dgt_resourcetype,
+      dgt_sequential: source.dgt_sequential,
+      dgt_resourcecount: count,
+      week_num: targetWeek,
+      dgt_projectid: source.dgt_projectid,
+      owningbusinessunit: source.owningbusinessunit,
+    }))
+    const { error } = await supabase.from('dbp6_000501_actualresources_current').insert(inserts as never)
+    if (error) {
+      showError('Failed to start week ' + targetWeek + ': ' + error.message)
+    } else {
+      showSuccess(`Week ${targetWeek} started with ${inserts.length} records`)
+      setRollForwardRows(null)
+      setSelectedWeek(targetWeek)
+      setCurrentPage(1)
+      fetchData()
+    }
+    setRollingForward(false)
+  }
+
+  // Re-points every row spelled like one of the variants at the catalogue entry, in _current and _history.
+  // Matching rows are snapshotted first so a failure part-way puts back everything already merged.
+  const handleMerge = async (variants: ResourceVariant[], target: ResourceCatalogueEntry) => {
+    setMerging(true)
+    const fail = (message: string) => {
+      showError(message)
+      setMerging(false)
+      fetchData()
+    }
+
+    const snapshots: { table: typeof MERGE_TABLES[number]; rows: ActualResources[] }[] = []
+    for (const table of MERGE_TABLES) {
+      const rows: ActualResources[] = []
+      for (const v of variants) {
+        let query = supabase.from(table).select('*').eq('dgt_dbp6bd00projectdataid', projectId)
+        query = v.resource_name === null ? query.is('resource_name', null) : query.eq('resource_name', v.resource_name)
+        query = v.resource_code === null ? query.is('resource_code', null) : query.eq('resource_code', v.resource_code)
+        const { data: matched, error } = await query
+        if (error) return fail('Merge failed: ' + error.message)
+        rows.push(...((matched || []) as ActualResources[]))
+      }
+      snapshots.push({ table, rows })
+    }
+
+    const payload = {
+      resource_name: target.resource_name,
+      resource_code: target.resource_code,
+      dgt_resourcediscipline: target.dgt_resourcediscipline,
+      dgt_resourcetype: target.dgt_resourcetype,
+    }
+    let mergeError: string | null = null
+    let touched = 0
+    for (const { table, rows } of snapshots) {
+      touched++
+      for (let i = 0; i < rows.length && !mergeError; i += MERGE_ID_CHUNK) {
+        const { error } = await supabase
+          .from(table)
+          .update(payload as never)
+          .in('dgt_dbp6ud0501actualresourcesid', rows.slice(i, i + MERGE_ID_CHUNK).map(r => r.dgt_dbp6ud0501actualresourcesid))
+        if (error) mergeError = error.message
+      }
+      if (mergeError) break
+    }
+
+    if (mergeError) {
+      // Compensate: write the snapshot back over every table the merge reached
+      const restoreErrors: string[] = []
+      for (const { table, rows } of snapshots.slice(0, touched)) {
+        if (rows.length === 0) continue
+        const { error } = await supabase.from(table).upsert(rows as never[], { onConflict: 'dgt_dbp6ud0501actualresourcesid' })
+        if (error) restoreErrors.push(error.message)
+      }
+      return fail(restoreErrors.length === 0
+        ? `Merge rolled back: ${mergeError}`
+        : `Merge failed (${mergeError}) and some rows could not be restored: ${restoreErrors.join('; ')}`)
+    }
+
+    const merged = snapshots[0].rows.length
+    showSuccess(`${merged} row${merged !== 1 ? 's' : ''} merged into ${target.resource_code} - ${target.resource_name}`)
+    setShowMerge(false)
+    setMerging(false)
+    fetchData()
+  }
+
   const handleExport = () => {
     const headers = ['resource_name', 'dgt_resourcediscipline', 'dgt_resourcetype', 'dgt_resourcecount', 'dgt_sequential', 'resource_code', 'week_num', 'dgt_projectid', 'owningbusinessunit']
     const rows = data.map(r => [r.resource_name, r.dgt_resourcediscipline, r.dgt_resourcetype, r.dgt_resourcecount, r.dgt_sequential, r.resource_code, r.week_num, r.dgt_projectid, r.owningbusinessunit])
@@ -408,19 +553,23 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
   const handleImport = async (rows: Record<string, string>[]) => {
     if (rows.length === 0) { showError('No data found in CSV'); return }
     const inserts = rows
-      .filter(r => r.resource_name)
-      .map(({ resource_name, dgt_resourcediscipline, dgt_resourcetype, dgt_resourcecount, dgt_sequential, resource_code, week_num, dgt_projectid, owningbusinessunit }) => ({
-        dgt_dbp6bd00projectdataid: projectId,
-        resource_name: resource_name || null,
-        dgt_resourcediscipline: Number(dgt_resourcediscipline) || null,
-        dgt_resourcetype: Number(dgt_resourcetype) || null,
-        dgt_resourcecount: Number(dgt_resourcecount) || null,
-        dgt_sequential: Number(dgt_sequential) || null,
-        resource_code: resource_code || null,
-        week_num: Number(week_num) || null,
-        dgt_projectid: dgt_projectid || null,
-        owningbusinessunit: owningbusinessunit || null,
-      }))
+      .filter(r => r.resource_name || (r.resource_code && catalogueEntry(r.resource_code)))
+      .map(({ resource_name, dgt_resourcediscipline, dgt_resourcetype, dgt_resourcecount, dgt_sequential, resource_code, week_num, dgt_projectid, owningbusinessunit }) => {
+        // A catalogued code wins over whatever name the CSV spelled it with
+        const entry = resource_code ? catalogueEntry(resource_code) : undefined
+        return {
+          dgt_dbp6bd00projectdataid: projectId,
+          resource_name: entry?.resource_name ?? (resource_name || null),
+          dgt_resourcediscipline: entry?.dgt_resourcediscipline ?? (Number(dgt_resourcediscipline) || null),
+          dgt_resourcetype: entry?.dgt_resourcetype ?? (Number(dgt_resourcetype) || null),
+          dgt_resourcecount: Number(dgt_resourcecount) || null,
+          dgt_sequential: Number(dgt_sequential) || null,
+          resource_code: resource_code || null,
+          week_num: Number(week_num) || null,
+          dgt_projectid: dgt_projectid || null,
+          owningbusinessunit: owningbusinessunit || null,
+        }
+      })
     if (inserts.length === 0) { showError('No valid rows to import'); return }
     const { error } = await supabase.from('dbp6_000501_actualresources_current').insert(inserts as never)
     if (error) { showError('Import failed: ' + error.message) }
@@ -519,6 +668,36 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
             </svg>
             Type Legend
           </button>
+          <button
+            onClick={() => setShowHistogram(!showHistogram)}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md transition-colors whitespace-nowrap shadow-sm ${showHistogram ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+            title="Show weekly manpower histogram"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            Histogram
+          </button>
+          <button
+            onClick={() => setShowPlanComparison(!showPlanComparison)}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md transition-colors whitespace-nowrap shadow-sm ${showPlanComparison ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+            title="Compare planned manpower loading with actuals"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+            </svg>
+            Plan vs Actual
+          </button>
+          <button
+            onClick={() => { fetchCatalogue(); setShowMerge(true) }}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors whitespace-nowrap shadow-sm"
+            title="Merge duplicate resource names into catalogue entries"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+            Merge Names
+          </button>
         </div>
         <div className="flex items-center gap-2">
           <CsvControls onExport={handleExport} onImport={handleImport} />
@@ -557,6 +736,18 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
               'Post Update'
             )}
           </button>
+          {isCurrentWeek && (
+            <button
+              onClick={openRollForward}
+              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors whitespace-nowrap shadow-sm"
+              title={`Copy week ${latestWeek} resources into week ${(latestWeek ?? 0) + 1}`}
+            >
+              <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+              </svg>
+              Start week {(latestWeek ?? 0) + 1}
+            </button>
+          )}
           {isCurrentWeek && (
             <button
               onClick={openCreateModal}
@@ -613,6 +804,26 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
         </div>
       )}
 
+      {showHistogram && (
+        <ManpowerHistogram
+          projectId={projectId}
+          schemaName={schemaName}
+          types={types}
+          disciplineLabel={getDisciplineName}
+          typeLabel={getTypeName}
+        />
+      )}
+
+      {showPlanComparison && (
+        <PlannedManpowerComparison
+          projectId={projectId}
+          schemaName={schemaName}
+          disciplines={disciplines}
+          disciplineLabel={getDisciplineName}
+          onNotify={(type, message) => (type === 'success' ? showSuccess(message) : showError(message))}
+        />
+      )}
+
       {loading ? (
         <LoadingSpinner />
       ) : (
@@ -732,7 +943,32 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
                         {/* Resource Name */}
                         <td className="px-2 py-1.5 text-xs text-gray-900 whitespace-nowrap sticky left-0 border-r border-gray-200" style={{ backgroundColor: isEditing ? '#eff6ff' : 'white' }}>
                           {isEditing ? (
-                            <input type="text" value={editValues.resource_name} onChange={e => setEditValues(p => ({ ...p, resource_name: e.target.value }))} className={inputCls} />
+                            catalogue.length > 0 ? (
+                              <select
+                                value={editValues.resource_code}
+                                onChange={e => {
+                                  const entry = catalogueEntry(e.target.value)
+                                  if (!entry) return
+                                  setEditValues(p => ({
+                                    ...p,
+                                    resource_code: entry.resource_code,
+                                    resource_name: entry.resource_name,
+                                    dgt_resourcediscipline: entry.dgt_resourcediscipline?.toString() ?? '',
+                                    dgt_resourcetype: entry.dgt_resourcetype?.toString() ?? '',
+                                  }))
+                                }}
+                                className={inputCls}
+                              >
+                                {!catalogueEntry(editValues.resource_code) && (
+                                  <option value={editValues.resource_code}>{editValues.resource_name || '-'} (not in catalogue)</option>
+                                )}
+                                {catalogue.map((c) => (
+                                  <option key={c.id} value={c.resource_code}>{c.resource_code} - {c.resource_name}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <input type="text" value={editValues.resource_name} onChange={e => setEditValues(p => ({ ...p, resource_name: e.target.value }))} className={inputCls} />
+                            )
                           ) : (
                             record.resource_name || '-'
                           )}
@@ -776,8 +1012,10 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
                         </td>
                         {/* Resource Code */}
                         <td className="px-2 py-1.5 text-xs text-gray-900 whitespace-nowrap">
-                          {isEditing ? (
+                          {isEditing && catalogue.length === 0 ? (
                             <input type="text" value={editValues.resource_code} onChange={e => setEditValues(p => ({ ...p, resource_code: e.target.value }))} className={inputCls} />
+                          ) : isEditing ? (
+                            editValues.resource_code || '-'
                           ) : (
                             record.resource_code || '-'
                           )}
@@ -872,12 +1110,35 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
         title="Create Actual Resources Record"
       >
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <FormField
-            label="Resource Name"
-            type="text"
-            {...register('resource_name')}
-            error={errors.resource_name?.message}
-          />
+          {catalogue.length > 0 ? (
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Resource</label>
+              <select
+                {...resourceCodeField}
+                onChange={(e) => {
+                  resourceCodeField.onChange(e)
+                  const entry = catalogueEntry(e.target.value)
+                  setValue('resource_name', entry?.resource_name ?? '')
+                  setValue('dgt_resourcediscipline', entry?.dgt_resourcediscipline?.toString() ?? '')
+                  setValue('dgt_resourcetype', entry?.dgt_resourcetype?.toString() ?? '')
+                }}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">-- Select Resource --</option>
+                {catalogue.map((c) => (
+                  <option key={c.id} value={c.resource_code}>{c.resource_code} - {c.resource_name}</option>
+                ))}
+              </select>
+              {errors.resource_code?.message && <p className="text-xs text-red-600">{errors.resource_code.message}</p>}
+            </div>
+          ) : (
+            <FormField
+              label="Resource Name"
+              type="text"
+              {...register('resource_name')}
+              error={errors.resource_name?.message}
+            />
+          )}
 
           <FormField
             label="Discipline"
@@ -922,12 +1183,14 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
             error={errors.dgt_sequential?.message}
           />
 
-          <FormField
-            label="Resource Code"
-            type="text"
-            {...register('resource_code')}
-            error={errors.resource_code?.message}
-          />
+          {catalogue.length === 0 && (
+            <FormField
+              label="Resource Code"
+              type="text"
+              {...register('resource_code')}
+              error={errors.resource_code?.message}
+            />
+          )}
 
           <FormField
             label="Week Number"
@@ -989,6 +1252,25 @@ export function ActualResourcesForm({ projectId, schemaName }: { projectId: stri
         onConfirm={() => { setShowDiscardConfirm(false); setIsModalOpen(false); reset() }}
         onCancel={() => setShowDiscardConfirm(false)}
       />
+
+      <WeekRollForwardModal
+        sourceRows={rollForwardRows}
+        sourceWeek={latestWeek}
+        saving={rollingForward}
+        disciplineLabel={getDisciplineName}
+        typeLabel={getTypeName}
+        onConfirm={handleRollForward}
+        onCancel={() => setRollForwardRows(null)}
+      />
+
+      <ResourceMergeModal
+        isOpen={showMerge}
+        rows={data}
+        catalogue={catalogue}
+        saving={merging}
+        onMerge={handleMerge}
+        onClose={() => setShowMerge(false)}
+      />
     </div>
   )
 }
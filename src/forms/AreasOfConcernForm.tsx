@@ -1,7 +1,7 @@
-import { useState, useEffect, useMemo } from 'react'
+import { Fragment, useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { schemaClient } from '@/lib/supabase'
-import type { AreaOfConcern } from '@/types/database'
+import type { AocAction, AreaOfConcern } from '@/types/database'
 import { Modal } from '@/components/Modal'
 import { Pagination } from '@/components/Pagination'
 import { SearchFilter } from '@/components/SearchFilter'
@@ -11,6 +11,8 @@ import { useNotification } from '@/hooks/useNotification'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { CsvControls } from '@/components/CsvControls'
 import { exportToCsv } from '@/utils/csv'
+import { AocActionItems } from '@/components/AocActionItems'
+import { DEFAULT_ESCALATION_WEEKS, isActionOverdue, weeksOpen } from '@/utils/aocActions'
 
 interface AocFormData {
   description: string
@@ -40,6 +42,9 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
   const [editValues, setEditValues] = useState({ description: '', status_description: '', action_by: '' })
   const [showSaveConfirm, setShowSaveConfirm] = useState(false)
   const [showEditCancelConfirm, setShowEditCancelConfirm] = useState(false)
+  const [actions, setActions] = useState<AocAction[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [escalationWeeks, setEscalationWeeks] = useState(() => Number(localStorage.getItem('aocEscalationWeeks')) || DEFAULT_ESCALATION_WEEKS)
   const { notification, hideNotification, showSuccess, showError } = useNotification()
 
   const {
@@ -73,10 +78,41 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
     setLoading(false)
   }
 
+  const fetchActions = async () => {
+    const { data: records, error } = await supabase
+      .from('dbp6_aoc_action')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('due_date', { ascending: true })
+
+    if (error) showError('Failed to fetch actions: ' + error.message)
+    else setActions((records as AocAction[]) || [])
+  }
+
   useEffect(() => {
+    setExpandedId(null)
     fetchData()
+    fetchActions()
   }, [projectId])
 
+  const updateEscalationWeeks = (weeks: number) => {
+    setEscalationWeeks(weeks)
+    localStorage.setItem('aocEscalationWeeks', String(weeks))
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+
+  const actionsByAoc = useMemo(() => {
+    const map = new Map<string, AocAction[]>()
+    for (const a of actions) {
+      if (!map.has(a.aoc_id)) map.set(a.aoc_id, [])
+      map.get(a.aoc_id)!.push(a)
+    }
+    return map
+  }, [actions])
+
+  const isEscalated = (record: AreaOfConcern) => (weeksOpen(record, today) ?? 0) >= escalationWeeks
+
   const filteredAndSortedData = useMemo(() => {
     let result = data
 
@@ -178,6 +214,7 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
       project_id: projectId || null,
       description: formData.description.trim(),
       status: selectedStatus,
+      closed_at: selectedStatus === 'closed' ? new Date().toISOString() : null,
     } as never)
 
     if (error) {
@@ -193,18 +230,19 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
 
   const handleToggleStatus = async (id: string, currentStatus: string) => {
     const newStatus = currentStatus === 'open' ? 'closed' : 'open'
+    const closedAt = newStatus === 'closed' ? new Date().toISOString() : null
     setTogglingId(id)
 
     const { error } = await supabase
       .from('dbp6_areas_of_concern')
-      .update({ status: newStatus } as never)
+      .update({ status: newStatus, closed_at: closedAt } as never)
       .eq('id', id)
 
     if (error) {
       showError('Failed to update status: ' + error.message)
     } else {
       setData((prev) =>
-        prev.map((item) => (item.id === id ? { ...item, status: newStatus } : item))
+        prev.map((item) => (item.id === id ? { ...item, status: newStatus, closed_at: closedAt } : item))
       )
       showSuccess(newStatus === 'closed' ? 'Marked as closed' : 'Reopened')
     }
@@ -213,12 +251,27 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
 
   const handleDelete = async (id: string) => {
     setDeleting(true)
-    const { error } = await supabase.from('dbp6_areas_of_concern').delete().eq('id', id)
+    // Action items go first so none are left pointing at a deleted AoC; they are put back if the AoC delete fails
+    const { data: snapshot, error: snapshotError } = await supabase.from('dbp6_aoc_action').select('*').eq('aoc_id', id)
+    const { error: actionsError } = snapshotError
+      ? { error: snapshotError }
+      : await supabase.from('dbp6_aoc_action').delete().eq('aoc_id', id)
+    const { error } = actionsError
+      ? { error: actionsError }
+      : await supabase.from('dbp6_areas_of_concern').delete().eq('id', id)
 
     if (error) {
-      showError('Failed to delete record: ' + error.message)
+      const removed = (snapshot || []) as AocAction[]
+      const { error: restoreError } = actionsError || removed.length === 0
+        ? { error: null }
+        : await supabase.from('dbp6_aoc_action').insert(removed as never[])
+      showError(restoreError
+        ? `Failed to delete record (${error.message}) and its ${removed.length} action items could not be restored: ${restoreError.message}`
+        : 'Failed to delete record: ' + error.message)
+      fetchActions()
     } else {
       setData((prev) => prev.filter((item) => item.id !== id))
+      setActions((prev) => prev.filter((a) => a.aoc_id !== id))
       showSuccess('Record deleted')
     }
     setDeleting(false)
@@ -266,8 +319,16 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
   }
 
   const handleExport = () => {
-    const headers = ['aoc_number', 'description', 'status', 'created_at']
-    const rows = data.map(r => [r.aoc_number, r.description, r.status, r.created_at])
+    const headers = ['aoc_number', 'description', 'status', 'created_at', 'closed_at', 'open_actions', 'overdue_actions', 'escalated']
+    const rows = data.map(r => {
+      const aocActions = actionsByAoc.get(r.id) ?? []
+      return [
+        r.aoc_number, r.description, r.status, r.created_at, r.closed_at,
+        aocActions.filter(a => a.status !== 'done').length,
+        r.status === 'open' ? aocActions.filter(a => isActionOverdue(a, today)).length : 0,
+        isEscalated(r) ? 'yes' : null,
+      ]
+    })
     exportToCsv('areas-of-concern', headers, rows)
   }
 
@@ -275,12 +336,16 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
     if (rows.length === 0) { showError('No data found in CSV'); return }
     const inserts = rows
       .filter(r => r.description)
-      .map(({ aoc_number, description, status }) => ({
-        project_id: projectId,
-        aoc_number: aoc_number || null,
-        description: description || null,
-        status: status || 'open',
-      }))
+      .map(({ aoc_number, description, status, closed_at }) => {
+        const closedAt = closed_at && !isNaN(Date.parse(closed_at)) ? new Date(closed_at).toISOString() : null
+        return {
+          project_id: projectId,
+          aoc_number: aoc_number || null,
+          description: description || null,
+          status: status || 'open',
+          closed_at: status === 'closed' ? closedAt ?? new Date().toISOString() : null,
+        }
+      })
     if (inserts.length === 0) { showError('No valid rows to import'); return }
     const { error } = await supabase.from('dbp6_areas_of_concern').insert(inserts as never)
     if (error) { showError('Import failed: ' + error.message) }
@@ -294,6 +359,9 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
 
   const openCount = data.filter((d) => d.status === 'open').length
   const closedCount = data.filter((d) => d.status === 'closed').length
+  const escalatedCount = data.filter(isEscalated).length
+  const openAocIds = new Set(data.filter((d) => d.status === 'open').map((d) => d.id))
+  const overdueActionCount = actions.filter((a) => openAocIds.has(a.aoc_id) && isActionOverdue(a, today)).length
 
   return (
     <div className="space-y-4">
@@ -323,6 +391,28 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
             <span className="w-1.5 h-1.5 rounded-full bg-green-500" />
             {closedCount} Closed
           </span>
+          {escalatedCount > 0 && (
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+              <span className="w-1.5 h-1.5 rounded-full bg-red-500" />
+              {escalatedCount} Escalated
+            </span>
+          )}
+          {overdueActionCount > 0 && (
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+              {overdueActionCount} Overdue action{overdueActionCount !== 1 ? 's' : ''}
+            </span>
+          )}
+          <label className="flex items-center gap-1.5 text-xs text-gray-600" title="Flag areas of concern open for at least this many weeks">
+            Escalate after
+            <input
+              type="number"
+              min="1"
+              value={escalationWeeks}
+              onChange={(e) => updateEscalationWeeks(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-14 h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+            />
+            weeks
+          </label>
         </div>
         <div className="flex items-center gap-2">
           <CsvControls onExport={handleExport} onImport={handleImport} />
@@ -400,6 +490,16 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
                       Action By
                     </div>
                   </th>
+                  <th className="px-3 py-3 text-left">
+                    <div className="text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">
+                      Action Items
+                    </div>
+                  </th>
+                  <th className="px-3 py-3 text-left w-28">
+                    <div className="text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">
+                      Closed
+                    </div>
+                  </th>
                   <th className="px-3 py-3 text-left w-20">
                     <div className="text-xs font-medium text-gray-600 uppercase tracking-wide">
                       Actions
@@ -410,7 +510,7 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
               <tbody className="bg-white divide-y divide-gray-200">
                 {paginatedData.length === 0 ? (
                   <tr>
-                    <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={9} className="px-6 py-8 text-center text-gray-500">
                       No areas of concern
                     </td>
                   </tr>
@@ -419,6 +519,11 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
                     const isOpen = record.status === 'open'
                     const isToggling = togglingId === record.id
                     const isEditing = editingId === record.id
+                    const aocActions = actionsByAoc.get(record.id) ?? []
+                    const openActions = aocActions.filter((a) => a.status !== 'done').length
+                    const overdueActions = isOpen ? aocActions.filter((a) => isActionOverdue(a, today)).length : 0
+                    const escalated = isEscalated(record)
+                    const isExpanded = expandedId === record.id
 
                     if (isEditing) {
                       return (
@@ -468,6 +573,12 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
                               }}
                             />
                           </td>
+                          <td className="px-3 py-2.5 whitespace-nowrap text-xs text-gray-400 italic">
+                            (unchanged)
+                          </td>
+                          <td className="px-3 py-2.5 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(record.closed_at)}
+                          </td>
                           <td className="px-3 py-2.5 whitespace-nowrap">
                             <div className="flex items-center gap-1">
                               <button
@@ -495,73 +606,118 @@ export function AreasOfConcernForm({ projectId, schemaName }: { projectId: strin
                     }
 
                     return (
-                      <tr key={record.id} className={`hover:bg-gray-50 ${!isOpen ? 'opacity-70' : ''}`}>
-                        <td className="px-3 py-2.5 whitespace-nowrap text-sm font-mono font-medium text-gray-900">
-                          {record.aoc_number}
-                        </td>
-                        <td className="px-3 py-2.5 text-sm text-gray-900 max-w-md break-words">
-                          {record.description || '-'}
-                        </td>
-                        <td className="px-3 py-2.5 whitespace-nowrap text-sm text-gray-500">
-                          {formatDate(record.created_at)}
-                        </td>
-                        {/* Clickable status badge */}
-                        <td className="px-3 py-2.5 whitespace-nowrap">
-                          <button
-                            onClick={() => handleToggleStatus(record.id, record.status ?? 'open')}
-                            disabled={isToggling}
-                            title={isOpen ? 'Click to close' : 'Click to reopen'}
-                            className={`inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-full transition-all hover:opacity-80 disabled:opacity-50 ${
-                              isOpen
-                                ? 'bg-orange-100 text-orange-800 hover:bg-orange-200'
-                                : 'bg-green-100 text-green-800 hover:bg-green-200'
-                            }`}
-                          >
-                            {isToggling ? (
-                              <svg className="animate-spin w-3 h-3" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                              </svg>
-                            ) : isOpen ? (
-                              <span className="w-1.5 h-1.5 rounded-full bg-orange-500 animate-pulse" />
-                            ) : (
-                              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
-                              </svg>
-                            )}
-                            {isOpen ? 'Open' : 'Closed'}
-                          </button>
-                        </td>
-                        <td className="px-3 py-2.5 text-sm text-gray-700 max-w-xs break-words">
-                          {record.status_description || '-'}
-                        </td>
-                        <td className="px-3 py-2.5 text-sm text-gray-700 whitespace-nowrap">
-                          {record.action_by || '-'}
-                        </td>
-                        {/* Actions: Edit + Delete */}
-                        <td className="px-3 py-2.5 whitespace-nowrap">
-                          <div className="flex items-center gap-1">
+                      <Fragment key={record.id}>
+                        <tr className={`${overdueActions > 0 ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'} ${!isOpen ? 'opacity-70' : ''}`}>
+                          <td className="px-3 py-2.5 whitespace-nowrap text-sm font-mono font-medium text-gray-900">
+                            {record.aoc_number}
+                          </td>
+                          <td className="px-3 py-2.5 text-sm text-gray-900 max-w-md break-words">
+                            {record.description || '-'}
+                          </td>
+                          <td className="px-3 py-2.5 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(record.created_at)}
+                          </td>
+                          {/* Clickable status badge */}
+                          <td className="px-3 py-2.5 whitespace-nowrap">
                             <button
-                              onClick={() => startEdit(record)}
-                              className="p-1 text-blue-500 rounded"
-                              title="Edit record"
+                              onClick={() => handleToggleStatus(record.id, record.status ?? 'open')}
+                              disabled={isToggling}
+                              title={isOpen ? 'Click to close' : 'Click to reopen'}
+                              className={`inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-full transition-all hover:opacity-80 disabled:opacity-50 ${
+                                isOpen
+                                  ? 'bg-orange-100 text-orange-800 hover:bg-orange-200'
+                                  : 'bg-green-100 text-green-800 hover:bg-green-200'
+                              }`}
                             >
-                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                              </svg>
+                              {isToggling ? (
+                                <svg className="animate-spin w-3 h-3" fill="none" viewBox="0 0 24 24">
+                                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                                </svg>
+                              ) : isOpen ? (
+                                <span className="w-1.5 h-1.5 rounded-full bg-orange-500 animate-pulse" />
+                              ) : (
+                                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
+                                </svg>
+                              )}
+                              {isOpen ? 'Open' : 'Closed'}
                             </button>
+                            {escalated && (
+                              <span
+                                className="ml-1.5 inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800"
+                                title={`Open for ${weeksOpen(record, today)} weeks (escalates after ${escalationWeeks})`}
+                              >
+                                Escalated
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2.5 text-sm text-gray-700 max-w-xs break-words">
+                            {record.status_description || '-'}
+                          </td>
+                          <td className="px-3 py-2.5 text-sm text-gray-700 whitespace-nowrap">
+                            {record.action_by || '-'}
+                          </td>
+                          <td className="px-3 py-2.5 whitespace-nowrap">
                             <button
-                              onClick={() => setDeleteConfirm(record.id)}
-                              className="p-1 text-red-500 rounded"
-                              title="Delete record"
+                              onClick={() => setExpandedId(isExpanded ? null : record.id)}
+                              className="inline-flex items-center gap-1.5 text-xs font-medium text-gray-700 hover:text-blue-700"
+                              title={isExpanded ? 'Hide action items' : 'Show action items'}
                             >
-                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              <svg className={`w-3.5 h-3.5 transition-transform ${isExpanded ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                               </svg>
+                              {aocActions.length === 0 ? 'None' : `${openActions} open / ${aocActions.length}`}
                             </button>
-                          </div>
-                        </td>
-                      </tr>
+                            {overdueActions > 0 && (
+                              <span className="ml-1.5 inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                                {overdueActions} overdue
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2.5 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(record.closed_at)}
+                          </td>
+                          {/* Actions: Edit + Delete */}
+                          <td className="px-3 py-2.5 whitespace-nowrap">
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={() => startEdit(record)}
+                                className="p-1 text-blue-500 rounded"
+                                title="Edit record"
+                              >
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                </svg>
+                              </button>
+                              <button
+                                onClick={() => setDeleteConfirm(record.id)}
+                                className="p-1 text-red-500 rounded"
+                                title="Delete record"
+                              >
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                </svg>
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={9} className="px-6 py-3">
+                              <AocActionItems
+                                aocId={record.id}
+                                projectId={projectId}
+                                schemaName={schemaName}
+                                actions={aocActions}
+                                today={today}
+                                onChanged={fetchActions}
+                                onNotify={(type, message) => (type === 'success' ? showSuccess(message) : showError(message))}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
                     )
                   })
                 )}
@@ -4,6 +4,8 @@ import type { DynamicActualData } from '@/types/database'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
 import { Notification } from '@/components/Notification'
 import { useNotification } from '@/hooks/useNotification'
+import { ActivityProgressHistory } from '@/components/ActivityProgressHistory'
+import { ProgressWeekComparison } from '@/components/ProgressWeekComparison'
 
 const PAGE_SIZE = 50
 
@@ -16,6 +18,8 @@ type SortField =
   | 'dgt_actualfinish'
   | 'dgt_pctcomplete'
 
+type ViewMode = 'latest' | 'compare'
+
 interface AppliedFilters {
   activityId: string
   weekNum: string
@@ -26,6 +30,8 @@ export function DynamicActualDataForm({ projectId, schemaName }: { projectId: st
   const [totalCount, setTotalCount] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
   const [loading, setLoading] = useState(true)
+  const [viewMode, setViewMode] = useState<ViewMode>('latest')
+  const [historyActivity, setHistoryActivity] = useState<string | null>(null)
 
   // Pending filter inputs (not yet applied)
   const [activityInput, setActivityInput] = useState('')
@@ -182,194 +188,232 @@ export function DynamicActualDataForm({ projectId, schemaName }: { projectId: st
         />
       )}
 
-      {/* Filter bar */}
-      <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm">
-        <div className="flex flex-wrap items-end gap-3">
-          {/* Activity ID */}
-          <div className="flex-1 min-w-[180px]">
-            <label className="block text-xs font-medium text-gray-600 mb-1">Activity ID</label>
-            <div className="relative">
-              <input
-                type="text"
-                value={activityInput}
-                onChange={e => setActivityInput(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder="Search..."
-                className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              />
-              <svg className="absolute left-2.5 top-2 w-3.5 h-3.5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-              </svg>
-            </div>
-          </div>
-
-          {/* Week # */}
-          <div className="w-28">
-            <label className="block text-xs font-medium text-gray-600 mb-1">Week #</label>
-            <input
-              type="number"
-              value={weekNumInput}
-              onChange={e => setWeekNumInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="e.g. 42"
-              min="1"
-              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            />
-          </div>
-
-          {/* Actions */}
-          <div className="flex items-center gap-2 pb-0.5">
-            <button
-              onClick={applyFilters}
-              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
-            >
-              Apply
-            </button>
-            {hasActiveFilters && (
-              <button
-                onClick={clearFilters}
-                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
-              >
-                <svg className="w-3.5 h-3.5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                </svg>
-                Clear
-              </button>
-            )}
-          </div>
-        </div>
-
-        {/* Active filter chips */}
-        {hasActiveFilters && (
-          <div className="flex flex-wrap gap-1.5 mt-2 pt-2 border-t border-gray-100">
-            {applied.activityId && (
-              <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full border border-blue-200">
-                Activity ID: <span className="font-medium">{applied.activityId}</span>
-              </span>
-            )}
-            {applied.weekNum && (
-              <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full border border-blue-200">
-                Week #: <span className="font-medium">{applied.weekNum}</span>
-              </span>
-            )}
-          </div>
-        )}
+      <ActivityProgressHistory
+        activityId={historyActivity}
+        projectId={projectId}
+        schemaName={schemaName}
+        onClose={() => setHistoryActivity(null)}
+      />
+
+      <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+        {(['latest', 'compare'] as ViewMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => setViewMode(mode)}
+            className={`h-8 px-3 text-xs font-medium ${viewMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+          >
+            {mode === 'latest' ? 'Latest week' : 'Week comparison'}
+          </button>
+        ))}
       </div>
 
-      {loading ? (
-        <LoadingSpinner />
+      {viewMode === 'compare' ? (
+        <ProgressWeekComparison
+          projectId={projectId}
+          schemaName={schemaName}
+          onSelectActivity={setHistoryActivity}
+          onError={showError}
+        />
       ) : (
-        <div className="bg-white shadow rounded-lg border border-gray-200 overflow-hidden">
-          {/* Results info */}
-          <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
-            <span className="text-sm text-gray-600">
-              <span className="font-semibold text-gray-900">{totalCount.toLocaleString()}</span>{' '}
-              record{totalCount !== 1 ? 's' : ''}
-              {hasActiveFilters && <span className="ml-1 text-gray-400">(filtered)</span>}
-            </span>
-            <span className="text-sm text-gray-500">
-              Sorted by{' '}
-              <span className="font-medium text-gray-700">{sortField.replace('dgt_', '')}</span>{' '}
-              <span className="text-gray-400">({sortDir})</span>
-            </span>
-          </div>
+        <>
+          {/* Filter bar */}
+          <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm">
+            <div className="flex flex-wrap items-end gap-3">
+              {/* Activity ID */}
+              <div className="flex-1 min-w-[180px]">
+                <label className="block text-xs font-medium text-gray-600 mb-1">Activity ID</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={activityInput}
+                    onChange={e => setActivityInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Search..."
+                    className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <svg className="absolute left-2.5 top-2 w-3.5 h-3.5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                  </svg>
+                </div>
+              </div>
+
+              {/* Week # */}
+              <div className="w-28">
+                <label className="block text-xs font-medium text-gray-600 mb-1">Week #</label>
+                <input
+                  type="number"
+                  value={weekNumInput}
+                  onChange={e => setWeekNumInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="e.g. 42"
+                  min="1"
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center gap-2 pb-0.5">
+                <button
+                  onClick={applyFilters}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Apply
+                </button>
+                {hasActiveFilters && (
+                  <button
+                    onClick={clearFilters}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+                  >
+                    <svg className="w-3.5 h-3.5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Clear
+                  </button>
+                )}
+              </div>
+            </div>
 
-          {/* Table */}
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="bg-gray-50 border-b border-gray-200">
-                  <SortableHeader field="dgt_activityid" label="Activity ID" className="text-left" />
-                  <SortableHeader field="dgt_projectid" label="Project ID" className="text-left" />
-                  <SortableHeader field="dgt_weeknum" label="Week #" className="text-center" />
-                  <SortableHeader field="dgt_datadate" label="Data Date" className="text-left" />
-                  <SortableHeader field="dgt_actualstart" label="Actual Start" className="text-left" />
-                  <SortableHeader field="dgt_actualfinish" label="Actual Finish" className="text-left" />
-                  <SortableHeader field="dgt_pctcomplete" label="% Complete" className="text-left" />
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {data.length === 0 ? (
-                  <tr>
-                    <td colSpan={7} className="px-3 py-8 text-center text-sm text-gray-500">
-                      No records found
-                    </td>
-                  </tr>
-                ) : (
-                  data.map(record => (
-                    <tr key={record.dgt_dbp6bd06dynamicactualdataid} className="hover:bg-gray-50">
-                      <td className="px-3 py-1.5 text-xs text-gray-900 font-mono whitespace-nowrap">
-                        {record.dgt_activityid || '-'}
-                      </td>
-                      <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
-                        {record.dgt_projectid || '-'}
-                      </td>
-                      <td className="px-3 py-1.5 text-xs text-gray-700 text-center">
-                        {record.dgt_weeknum ?? '-'}
-                      </td>
-                      <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
-                        {formatDate(record.dgt_datadate)}
-                      </td>
-                      <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
-                        {formatDate(record.dgt_actualstart)}
-                      </td>
-                      <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
-                        {formatDate(record.dgt_actualfinish)}
-                      </td>
-                      <td className="px-3 py-1.5 text-xs">
-                        <div className="flex items-center gap-2">
-                          <div className="w-16 bg-gray-200 rounded-full h-1.5 shrink-0">
-                            <div
-                              className={`h-1.5 rounded-full ${getProgressColor(record.dgt_pctcomplete)}`}
-                              style={{
-                                width: `${Math.min(record.dgt_pctcomplete || 0, 100)}%`,
-                              }}
-                            />
-                          </div>
-                          <span className="text-xs text-gray-600 font-mono">
-                            {formatPct(record.dgt_pctcomplete)}
-                          </span>
-                        </div>
-                      </td>
-                    </tr>
-                  ))
+            {/* Active filter chips */}
+            {hasActiveFilters && (
+              <div className="flex flex-wrap gap-1.5 mt-2 pt-2 border-t border-gray-100">
+                {applied.activityId && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full border border-blue-200">
+                    Activity ID: <span className="font-medium">{applied.activityId}</span>
+                  </span>
                 )}
-              </tbody>
-            </table>
+                {applied.weekNum && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full border border-blue-200">
+                    Week #: <span className="font-medium">{applied.weekNum}</span>
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
-          {/* Pagination */}
-          <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between">
-            <button
-              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-              disabled={currentPage <= 1}
-              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-            >
-              <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-              </svg>
-              Previous
-            </button>
-            <span className="text-sm text-gray-600">
-              Showing{' '}
-              <span className="font-semibold text-gray-900">{rangeStart.toLocaleString()}</span>
-              {' – '}
-              <span className="font-semibold text-gray-900">{rangeEnd.toLocaleString()}</span>
-              {' of '}
-              <span className="font-semibold text-gray-900">{totalCount.toLocaleString()}</span>
-            </span>
-            <button
-              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-              disabled={currentPage >= totalPages}
-              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-            >
-              Next
-              <svg className="w-4 h-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </button>
-          </div>
-        </div>
+          {loading ? (
+            <LoadingSpinner />
+          ) : (
+            <div className="bg-white shadow rounded-lg border border-gray-200 overflow-hidden">
+              {/* Results info */}
+              <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  <span className="font-semibold text-gray-900">{totalCount.toLocaleString()}</span>{' '}
+                  record{totalCount !== 1 ? 's' : ''}
+                  {hasActiveFilters && <span className="ml-1 text-gray-400">(filtered)</span>}
+                </span>
+                <span className="text-sm text-gray-500">
+                  Sorted by{' '}
+                  <span className="font-medium text-gray-700">{sortField.replace('dgt_', '')}</span>{' '}
+                  <span className="text-gray-400">({sortDir})</span>
+                </span>
+              </div>
+
+              {/* Table */}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 border-b border-gray-200">
+                      <SortableHeader field="dgt_activityid" label="Activity ID" className="text-left" />
+                      <SortableHeader field="dgt_projectid" label="Project ID" className="text-left" />
+                      <SortableHeader field="dgt_weeknum" label="Week #" className="text-center" />
+                      <SortableHeader field="dgt_datadate" label="Data Date" className="text-left" />
+                      <SortableHeader field="dgt_actualstart" label="Actual Start" className="text-left" />
+                      <SortableHeader field="dgt_actualfinish" label="Actual Finish" className="text-left" />
+                      <SortableHeader field="dgt_pctcomplete" label="% Complete" className="text-left" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {data.length === 0 ? (
+                      <tr>
+                        <td colSpan={7} className="px-3 py-8 text-center text-sm text-gray-500">
+                          No records found
+                        </td>
+                      </tr>
+                    ) : (
+                      data.map(record => (
+                        <tr key={record.dgt_dbp6bd06dynamicactualdataid} className="hover:bg-gray-50">
+                          <td className="px-3 py-1.5 text-xs font-mono whitespace-nowrap">
+                            {record.dgt_activityid ? (
+                              <button
+                                onClick={() => setHistoryActivity(record.dgt_activityid)}
+                                className="text-blue-600 hover:underline"
+                                title="Show weekly history"
+                              >
+                                {record.dgt_activityid}
+                              </button>
+                            ) : '-'}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
+                            {record.dgt_projectid || '-'}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-gray-700 text-center">
+                            {record.dgt_weeknum ?? '-'}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
+                            {formatDate(record.dgt_datadate)}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
+                            {formatDate(record.dgt_actualstart)}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs text-gray-700 whitespace-nowrap">
+                            {formatDate(record.dgt_actualfinish)}
+                          </td>
+                          <td className="px-3 py-1.5 text-xs">
+                            <div className="flex items-center gap-2">
+                              <div className="w-16 bg-gray-200 rounded-full h-1.5 shrink-0">
+                                <div
+                                  className={`h-1.5 rounded-full ${getProgressColor(record.dgt_pctcomplete)}`}
+                                  style={{
+                                    width: `${Math.min(record.dgt_pctcomplete || 0, 100)}%`,
+                                  }}
+                                />
+                              </div>
+                              <span className="text-xs text-gray-600 font-mono">
+                                {formatPct(record.dgt_pctcomplete)}
+                              </span>
+                            </div>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between">
+                <button
+                  onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                  disabled={currentPage <= 1}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Showing{' '}
+                  <span className="font-semibold text-gray-900">{rangeStart.toLocaleString()}</span>
+                  {' – '}
+                  <span className="font-semibold text-gray-900">{rangeEnd.toLocaleString()}</span>
+                  {' of '}
+                  <span className="font-semibold text-gray-900">{totalCount.toLocaleString()}</span>
+                </span>
+                <button
+                  onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                  disabled={currentPage >= totalPages}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  Next
+                  <svg className="w-4 h-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          )}
+        </>
       )}
     </div>
   )
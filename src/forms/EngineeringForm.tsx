@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { schemaClient } from '@/lib/supabase'
-import type { Engineering, Type, Discipline } from '@/types/database'
+import type { Engineering, QaqcHse, Type, Discipline } from '@/types/database'
 import { Modal } from '@/components/Modal'
 import { Pagination } from '@/components/Pagination'
 import { SearchFilter } from '@/components/SearchFilter'
@@ -14,6 +14,16 @@ import { DateColumnFilter } from '@/components/DateColumnFilter'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { CsvControls } from '@/components/CsvControls'
 import { exportToCsv } from '@/utils/csv'
+import { applyRegisterImport, planImport } from '@/utils/csvImport'
+import type { ImportPlan } from '@/utils/csvImport'
+import { ImportPreviewModal } from '@/components/ImportPreviewModal'
+import { useStatusCodes } from '@/hooks/useStatusCodes'
+import { STATUS_MEANINGS, STATUS_MEANING_LABELS } from '@/utils/statusCodes'
+import { TransmittalHistoryDrawer } from '@/components/TransmittalHistoryDrawer'
+import { TurnaroundKpiPanel } from '@/components/TurnaroundKpiPanel'
+import { SubmittalSCurve } from '@/components/SubmittalSCurve'
+import type { TurnaroundItem } from '@/components/TurnaroundKpiPanel'
+import { weekCommencing } from '@/utils/dates'
 
 interface EngineeringFormData {
   dgt_dbp6bd00projectdataid: string
@@ -35,6 +45,13 @@ interface EngineeringFormData {
 
 const ITEMS_PER_PAGE = 15
 
+type EngineeringImportRow = Pick<Engineering,
+  'dgt_dbp6bd00projectdataid' | 'dgt_transmittalref' | 'dgt_transmittalsubject' | 'dgt_discipline' | 'dgt_transmittaltype' | 'dgt_revision' | 'dgt_status' |
+  'dgt_plannedsubmissiondate' | 'dgt_plannedapprovaldate' | 'dgt_actualsubmissiondate' | 'dgt_actualreturndate' | 'is_long_lead' | 'mod_id'
+>
+
+type LinkedInspection = Pick<QaqcHse, 'dgt_docref' | 'dgt_status' | 'dgt_linkedtransmittalref'>
+
 type SortField = 'dgt_transmittalref' | 'dgt_transmittalsubject' | 'dgt_discipline' | 'dgt_transmittaltype' | 'dgt_plannedsubmissiondate' | 'dgt_plannedapprovaldate' | 'dgt_actualsubmissiondate' | 'dgt_actualreturndate' | 'dgt_revision' | 'dgt_status'
 type SortDirection = 'asc' | 'desc'
 
@@ -63,6 +80,13 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
   const [disciplines, setDisciplines] = useState<Discipline[]>([])
   const [showDisciplineLegend, setShowDisciplineLegend] = useState(false)
   const [showDiscardConfirm, setShowDiscardConfirm] = useState(false)
+  const [historyRef, setHistoryRef] = useState<string | null>(null)
+  const [importPlan, setImportPlan] = useState<ImportPlan<EngineeringImportRow> | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [inspections, setInspections] = useState<LinkedInspection[]>([])
+  const [showKpis, setShowKpis] = useState(false)
+  const [showSCurve, setShowSCurve] = useState(false)
+  const [projectDates, setProjectDates] = useState<{ start: string | null; dataDate: string | null }>({ start: null, dataDate: null })
   // Column filters
   const [filters, setFilters] = useState({
     dgt_transmittalref: '',
@@ -74,8 +98,10 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
     dgt_actualreturndate: '',
     dgt_revision: '',
     dgt_status: '',
+    status_meaning: '',
     mod_id: '',
   })
+  const statusCodes = useStatusCodes(schemaName, 'engineering')
   const { notification, hideNotification, showSuccess, showError } = useNotification()
 
   const updateFilter = (field: keyof typeof filters, value: string) => {
@@ -143,6 +169,27 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
     setLoading(false)
   }
 
+  const fetchProjectDates = async () => {
+    const { data: row } = await supabase
+      .from('dbp6_0000_projectdata')
+      .select('dgt_projectstartdate, dgt_datadate')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .maybeSingle()
+    const project = row as { dgt_projectstartdate: string | null; dgt_datadate: string | null } | null
+    setProjectDates({ start: project?.dgt_projectstartdate ?? null, dataDate: project?.dgt_datadate ?? null })
+  }
+
+  // QAQC documents raised against a transmittal in this register
+  const fetchInspections = async () => {
+    const { data: records } = await supabase
+      .from('dbp6_000402_qaqc_hse_current')
+      .select('dgt_docref, dgt_status, dgt_linkedtransmittalref')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .not('dgt_linkedtransmittalref', 'is', null)
+      .order('dgt_docref', { ascending: true })
+    setInspections((records || []) as LinkedInspection[])
+  }
+
   const fetchDisciplines = async () => {
     const { data: records } = await supabase.from('dbp6_0018_discipline').select('id, discipline_code, discipline_name').order('discipline_code', { ascending: true })
     setDisciplines(records || [])
@@ -153,6 +200,8 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
     fetchData()
     fetchProjects()
     fetchDisciplines()
+    fetchProjectDates()
+    fetchInspections()
   }, [projectId])
 
   const filteredAndSortedData = useMemo(() => {
@@ -241,6 +290,9 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
     if (filters.dgt_status) {
       result = result.filter((item) => item.dgt_status === filters.dgt_status)
     }
+    if (filters.status_meaning) {
+      result = result.filter((item) => statusCodes.meaningOf(item.dgt_status) === filters.status_meaning)
+    }
     if (filters.mod_id) {
       result = result.filter((item) => item.mod_id?.toString() === filters.mod_id)
     }
@@ -267,7 +319,27 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
     }
 
     return result
-  }, [data, searchTerm, filters, sortField, sortDirection])
+  }, [data, searchTerm, filters, sortField, sortDirection, statusCodes.meaningOf])
+
+  const inspectionsByRef = useMemo(() => {
+    const map = new Map<string, LinkedInspection[]>()
+    for (const i of inspections) {
+      const ref = i.dgt_linkedtransmittalref!
+      if (!map.has(ref)) map.set(ref, [])
+      map.get(ref)!.push(i)
+    }
+    return map
+  }, [inspections])
+
+  const kpiItems = useMemo<TurnaroundItem[]>(() => filteredAndSortedData.map(r => ({
+    discipline: r.dgt_discipline,
+    type: r.dgt_transmittaltype,
+    week: weekCommencing(r.dgt_actualsubmissiondate),
+    submitted: r.dgt_actualsubmissiondate,
+    returned: r.dgt_actualreturndate,
+    due: r.dgt_plannedapprovaldate,
+    rejected: statusCodes.meaningOf(r.dgt_status) === 'rejected',
+  })), [filteredAndSortedData, statusCodes.meaningOf])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -516,10 +588,22 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
     }
     const nullIfEmpty = (v: string | undefined): string | null => (!v || v.trim() === '' ? null : v.trim())
 
-    // Parse and filter rows with a transmittalref
-    const parsed = rows
-      .filter(r => r.dgt_transmittalref && r.dgt_transmittalref.trim() !== '')
-      .map(r => ({
+    // Fetch existing records so the preview can diff them by ref
+    const { data: existing, error: fetchErr } = await schemaClient(schemaName)
+      .from('dbp6_000401_engineering_current')
+      .select('*')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+    if (fetchErr) { showError('Import failed: ' + fetchErr.message); return }
+
+    const plan = planImport<EngineeringImportRow>(rows, {
+      refField: 'dgt_transmittalref',
+      revisionField: 'dgt_revision',
+      dateFields: ['dgt_plannedsubmissiondate', 'dgt_plannedapprovaldate', 'dgt_actualsubmissiondate', 'dgt_actualreturndate'],
+      compareFields: [
+        'dgt_transmittalsubject', 'dgt_discipline', 'dgt_transmittaltype', 'dgt_revision', 'dgt_status',
+        'dgt_plannedsubmissiondate', 'dgt_plannedapprovaldate', 'dgt_actualsubmissiondate', 'dgt_actualreturndate', 'is_long_lead',
+      ],
+      parse: r => ({
         dgt_dbp6bd00projectdataid: projectId,
         dgt_transmittalref: r.dgt_transmittalref.trim(),
         dgt_transmittalsubject: nullIfEmpty(r.dgt_transmittalsubject),
@@ -533,49 +617,49 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
         dgt_actualreturndate: parseDate(r.dgt_actualreturndate),
         is_long_lead: r.is_long_lead ? r.is_long_lead.trim().toLowerCase() === 'true' : false,
         mod_id: 1,
-      }))
-
-    if (parsed.length === 0) { showError('No valid rows to import'); return }
-
-    // Deduplicate: keep highest dgt_revision per dgt_transmittalref
-    const dedupMap = new Map<string, typeof parsed[number]>()
-    for (const row of parsed) {
-      const existing = dedupMap.get(row.dgt_transmittalref)
-      if (!existing || (row.dgt_revision ?? -Infinity) > (existing.dgt_revision ?? -Infinity)) {
-        dedupMap.set(row.dgt_transmittalref, row)
-      }
-    }
-    const deduped = Array.from(dedupMap.values())
-
-    // Fetch existing refs to distinguish updates vs inserts
-    const db = schemaClient(schemaName)
-    const { data: existing, error: fetchErr } = await db
-      .from('dbp6_000401_engineering_current')
-      .select('dgt_transmittalref')
-      .eq('dgt_dbp6bd00projectdataid', projectId)
-    if (fetchErr) { showError('Import failed: ' + fetchErr.message); return }
-
-    const existingRefs = new Set((existing || []).map((r: { dgt_transmittalref: string | null }) => r.dgt_transmittalref))
-    const toUpdate = deduped.filter(r => existingRefs.has(r.dgt_transmittalref))
-    const toInsert = deduped.filter(r => !existingRefs.has(r.dgt_transmittalref))
+      }),
+      existing: (existing || []) as Engineering[],
+    })
 
-    // Upsert into _current on conflict dgt_transmittalref
-    const { error: upsertErr } = await db
-      .from('dbp6_000401_engineering_current')
-      .upsert(deduped as never[], { onConflict: 'dgt_transmittalref' })
-    if (upsertErr) { showError('Import failed: ' + upsertErr.message); return }
+    if (plan.rows.length === 0) { showError('No valid rows to import'); return }
+    setImportPlan(plan)
+  }
 
-    // Sync to _history on conflict (dgt_transmittalref, dgt_revision)
-    const historyRows = deduped.map(r => ({ ...r }))
-    const { error: histErr } = await db
-      .from('dbp6_000401_engineering_history')
-      .upsert(historyRows as never[], { onConflict: 'dgt_transmittalref,dgt_revision' })
-    if (histErr) { showError(`Current updated but history sync failed: ${histErr.message}`); fetchData(); return }
+  const applyImport = async (rows: EngineeringImportRow[]) => {
+    if (!importPlan) return
+    setImporting(true)
+    const refs = new Set(rows.map(r => r.dgt_transmittalref))
+    const inserted = importPlan.rows.filter(r => refs.has(r.ref) && r.kind === 'insert').length
+    const error = await applyRegisterImport({
+      schemaName,
+      projectId,
+      currentTable: 'dbp6_000401_engineering_current',
+      historyTable: 'dbp6_000401_engineering_history',
+      refField: 'dgt_transmittalref',
+      revisionField: 'dgt_revision',
+      rows,
+    })
+    setImporting(false)
+    setImportPlan(null)
+    if (error) { showError(error); fetchData(); return }
 
-    showSuccess(`${toUpdate.length} updated, ${toInsert.length} inserted`)
+    showSuccess(`${rows.length - inserted} updated, ${inserted} inserted`)
     fetchData()
   }
 
+  const renderInspections = (record: Engineering) => {
+    const linked = inspectionsByRef.get(record.dgt_transmittalref ?? '') ?? []
+    if (linked.length === 0) return <span className="text-gray-400">-</span>
+    return (
+      <span
+        className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800 cursor-default"
+        title={linked.map(i => `${i.dgt_docref} (${i.dgt_status || '-'})`).join('\n')}
+      >
+        {linked.length} linked
+      </span>
+    )
+  }
+
   return (
     <div className="space-y-4">
       {notification && (
@@ -595,6 +679,15 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
               placeholder="Search by Ref, Subject, Discipline..."
             />
           </div>
+          <select
+            value={filters.status_meaning}
+            onChange={e => updateFilter('status_meaning', e.target.value)}
+            className="h-9 px-2 text-sm border border-gray-300 rounded-md bg-white text-gray-700 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+            title="Filter by what the status code means"
+          >
+            <option value="">All outcomes</option>
+            {STATUS_MEANINGS.map(m => <option key={m} value={m}>{STATUS_MEANING_LABELS[m]}</option>)}
+          </select>
           {(Object.values(filters).some(v => v !== '') || sortField !== null) && (
             <button
               onClick={() => {
@@ -608,6 +701,7 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
                   dgt_actualreturndate: '',
                   dgt_revision: '',
                   dgt_status: '',
+                  status_meaning: '',
                   mod_id: '',
                 })
                 setSortField(null)
@@ -645,6 +739,26 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
             </svg>
             Discipline Legend
           </button>
+          <button
+            onClick={() => setShowKpis(!showKpis)}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md transition-colors whitespace-nowrap shadow-sm ${showKpis ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+            title="Show review turnaround KPIs"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            KPIs
+          </button>
+          <button
+            onClick={() => setShowSCurve(!showSCurve)}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md transition-colors whitespace-nowrap shadow-sm ${showSCurve ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+            title="Show planned vs actual submission S-curve"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+            </svg>
+            S-Curve
+          </button>
         </div>
         <div className="flex items-center gap-2">
           <button
@@ -721,6 +835,26 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
         </div>
       )}
 
+      {showSCurve && !loading && (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+          <div className="px-4 py-2.5 bg-gray-50 border-b border-gray-200">
+            <span className="text-sm font-semibold text-gray-900">Submittal S-curve</span>
+            <span className="ml-2 text-xs text-gray-500">Cumulative by week, project start to data date</span>
+          </div>
+          <SubmittalSCurve rows={filteredAndSortedData} isApproved={status => statusCodes.meaningOf(status) === 'approved'} startDate={projectDates.start} dataDate={projectDates.dataDate} />
+        </div>
+      )}
+
+      {showKpis && !loading && (
+        <TurnaroundKpiPanel
+          items={kpiItems}
+          disciplineLabel={getDisciplineName}
+          typeLabel={getTypeName}
+          typeHeading="Transmittal type"
+          weekHeading="Submitted w/c"
+        />
+      )}
+
       {loading ? (
         <LoadingSpinner />
       ) : (
@@ -860,6 +994,9 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
                   <th className="px-3 py-2 text-left align-top w-16 text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">
                     Long Lead
                   </th>
+                  <th className="px-3 py-2 text-left align-top w-16 text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">
+                    QAQC
+                  </th>
                   <th className="px-3 py-2 text-left align-top w-16">
                     <div className="text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">Mod ID</div>
                     <div className="mt-1.5" onClick={(e) => e.stopPropagation()}>
@@ -874,7 +1011,7 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
               <tbody className="bg-white divide-y divide-gray-200">
                 {paginatedData.length === 0 ? (
                   <tr>
-                    <td colSpan={13} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={14} className="px-6 py-8 text-center text-gray-500">
                       No records found
                     </td>
                   </tr>
@@ -904,15 +1041,11 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
                             <td className="px-2 py-1.5">
                               <select value={editValues.status} onChange={e => setEditValues(p => ({ ...p, status: e.target.value }))} onKeyDown={e => { if (e.key === 'Enter') setShowSaveConfirm(true); if (e.key === 'Escape') setShowEditCancelConfirm(true) }} className={inputCls}>
                                 <option value="">-</option>
-                                <option value="A">A</option>
-                                <option value="B">B</option>
-                                <option value="C">C</option>
-                                <option value="D">D</option>
-                                <option value="E">E</option>
-                                <option value="UR">UR</option>
+                                {statusCodes.codes.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
                               </select>
                             </td>
                             <td className="px-3 py-2.5 text-sm text-gray-500 whitespace-nowrap">{record.is_long_lead ? 'Yes' : '-'}</td>
+                            <td className="px-3 py-2.5 text-sm whitespace-nowrap">{renderInspections(record)}</td>
                             <td className="px-2 py-1.5"><input type="number" value={editValues.mod_id} onChange={e => setEditValues(p => ({ ...p, mod_id: e.target.value }))} className={inputCls} /></td>
                             <td className="px-3 py-2.5 whitespace-nowrap">
                               <div className="flex items-center gap-1">
@@ -937,20 +1070,16 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
                             <td className="px-3 py-2.5 text-sm text-gray-900 whitespace-nowrap">{formatDate(record.dgt_actualreturndate)}</td>
                             <td className="px-3 py-2.5 text-sm text-gray-900 whitespace-nowrap">{record.dgt_revision ?? '-'}</td>
                             <td className="px-3 py-2.5 whitespace-nowrap">
-                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                                record.dgt_status === 'A' ? 'bg-green-100 text-green-800'
-                                : record.dgt_status === 'B' ? 'bg-sky-100 text-sky-800'
-                                : record.dgt_status === 'C' ? 'bg-red-100 text-red-700'
-                                : record.dgt_status === 'D' ? 'bg-red-200 text-red-900'
-                                : record.dgt_status === 'UR' ? 'bg-yellow-100 text-yellow-800'
-                                : record.dgt_status === 'E' ? 'bg-gray-200 text-gray-700'
-                                : 'bg-gray-100 text-gray-800'
-                              }`}>{record.dgt_status || '-'}</span>
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusCodes.badgeClass(record.dgt_status)}`}>{record.dgt_status || '-'}</span>
                             </td>
                             <td className="px-3 py-2.5 text-sm text-gray-500 whitespace-nowrap">{record.is_long_lead ? 'Yes' : '-'}</td>
+                            <td className="px-3 py-2.5 text-sm whitespace-nowrap">{renderInspections(record)}</td>
                             <td className="px-3 py-2.5 text-sm text-gray-500 whitespace-nowrap">{record.mod_id ?? '-'}</td>
                             <td className="px-3 py-2.5 whitespace-nowrap">
                               <div className="flex items-center gap-1">
+                                {record.dgt_transmittalref && (
+                                  <button onClick={() => setHistoryRef(record.dgt_transmittalref)} className="p-1 text-gray-500 rounded" title="Revision history"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg></button>
+                                )}
                                 <button onClick={() => startEdit(record)} className="p-1 text-blue-500 rounded" title="Edit"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg></button>
                                 <button onClick={() => setDeleteConfirm(record.dgt_dbp6bd041engineeringid)} className="p-1 text-red-500 rounded" title="Delete"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
                               </div>
@@ -974,6 +1103,21 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
         </div>
       )}
 
+      <ImportPreviewModal
+        plan={importPlan}
+        title="Engineering"
+        saving={importing}
+        onConfirm={applyImport}
+        onCancel={() => setImportPlan(null)}
+      />
+
+      <TransmittalHistoryDrawer
+        transmittalRef={historyRef}
+        projectId={projectId}
+        schemaName={schemaName}
+        onClose={() => setHistoryRef(null)}
+      />
+
       <Modal
         isOpen={isModalOpen}
         onClose={handleCancelModal}
@@ -1115,12 +1259,9 @@ export function EngineeringForm({ projectId, schemaName }: { projectId: string;
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="">Select status...</option>
-              <option value="A">A</option>
-              <option value="B">B</option>
-              <option value="C">C</option>
-              <option value="D">D</option>
-              <option value="E">E</option>
-              <option value="UR">UR</option>
+              {statusCodes.codes.map(c => (
+                <option key={c.code} value={c.code}>{c.label ? `${c.code} - ${c.label}` : c.code}</option>
+              ))}
             </select>
             {errors.dgt_status?.message && (
               <p className="mt-1 text-sm text-red-600">{errors.dgt_status.message}</p>
@@ -0,0 +1,285 @@
+import { useState, useEffect, useMemo } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { Engineering, P6ActivityUpdate, P6ActivityOutput } from '@/types/database'
+import { Pagination } from '@/components/Pagination'
+import { SearchFilter } from '@/components/SearchFilter'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { Notification } from '@/components/Notification'
+import { useNotification } from '@/hooks/useNotification'
+import { useStatusCodes } from '@/hooks/useStatusCodes'
+import { assessLongLead, RAG_LABELS } from '@/utils/longLead'
+import type { Rag } from '@/utils/longLead'
+
+const ITEMS_PER_PAGE = 15
+
+type LinkedTask = Pick<P6ActivityUpdate, 'task_code' | 'task_name' | 'status_code' | 'complete_pct'>
+type LinkedOutput = Pick<P6ActivityOutput, 'activity_id' | 'early_start' | 'total_float'>
+
+const RAG_STYLES: Record<Rag, string> = {
+  red: 'bg-red-100 text-red-700',
+  amber: 'bg-amber-100 text-amber-700',
+  green: 'bg-green-100 text-green-700',
+  complete: 'bg-gray-100 text-gray-600',
+}
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+const inputCls = 'w-full px-1.5 py-1 text-xs border border-amber-300 rounded focus:outline-none focus:ring-1 focus:ring-amber-400'
+
+const formatDate = (d: string | null) => (d ? new Date(d).toLocaleDateString() : '-')
+
+export function LongLeadForm({ projectId, projectTextId, schemaName }: { projectId: string; projectTextId: string; schemaName: string }) {
+  const supabase = schemaClient(schemaName)
+  const [data, setData] = useState<Engineering[]>([])
+  const [tasks, setTasks] = useState<LinkedTask[]>([])
+  const [outputs, setOutputs] = useState<LinkedOutput[]>([])
+  const [loading, setLoading] = useState(true)
+  const statusCodes = useStatusCodes(schemaName, 'engineering')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [ragFilter, setRagFilter] = useState<Rag | ''>('')
+  const [cycleDays, setCycleDays] = useState(14)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [linkingId, setLinkingId] = useState<string | null>(null)
+  const [linkValue, setLinkValue] = useState('')
+  const { notification, hideNotification, showSuccess, showError } = useNotification()
+
+  const fetchData = async () => {
+    setLoading(true)
+    const { data: records, error } = await supabase
+      .from('dbp6_000401_engineering_current')
+      .select('*')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .eq('is_long_lead', true)
+      .order('dgt_plannedapprovaldate', { ascending: true })
+    if (error) showError('Failed to fetch long-lead items: ' + error.message)
+    else setData((records || []) as Engineering[])
+
+    // Activity updates provide the task_code list to link against
+    const PAGE_SIZE = 1000
+    let allTasks: LinkedTask[] = []
+    let from = 0
+    while (projectTextId) {
+      const { data: page, error: taskError } = await supabase
+        .from('p6_activity_updates')
+        .select('task_code, task_name, status_code, complete_pct')
+        .eq('project_code', projectTextId)
+        .order('task_code', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+      if (taskError) { showError('Failed to fetch P6 activities: ' + taskError.message); break }
+      allTasks = allTasks.concat((page || []) as LinkedTask[])
+      if (!page || page.length < PAGE_SIZE) break
+      from += PAGE_SIZE
+    }
+    setTasks(allTasks)
+    setLoading(false)
+  }
+
+  useEffect(() => { fetchData() }, [projectId, projectTextId, schemaName])
+  useEffect(() => { setCurrentPage(1) }, [searchTerm, ragFilter, cycleDays])
+
+  // Schedule dates for linked activities only — the output table is too large to load whole
+  const linkedCodes = useMemo(
+    () => [...new Set(data.map(r => r.p6_task_code).filter((c): c is string => !!c))].sort(),
+    [data]
+  )
+  useEffect(() => {
+    if (!projectTextId || linkedCodes.length === 0) { setOutputs([]); return }
+    supabase
+      .from('p6_activity_output_flat')
+      .select('activity_id, early_start, total_float')
+      .eq('project_code', projectTextId)
+      .in('activity_id', linkedCodes)
+      .then(({ data: rows }) => setOutputs((rows || []) as LinkedOutput[]))
+  }, [linkedCodes, projectTextId, schemaName])
+
+  const taskByCode = useMemo(() => new Map(tasks.map(t => [t.task_code, t])), [tasks])
+  const outputByCode = useMemo(() => new Map(outputs.map(o => [o.activity_id, o])), [outputs])
+
+  const today = new Date().toISOString().slice(0, 10)
+  const assessed = useMemo(
+    () => data.map(r => ({ record: r, ...assessLongLead(r, cycleDays, today, statusCodes.meaningOf(r.dgt_status) === 'approved') })),
+    [data, cycleDays, today, statusCodes.meaningOf]
+  )
+
+  const ragCounts = useMemo(() => {
+    const counts: Record<Rag, number> = { red: 0, amber: 0, green: 0, complete: 0 }
+    for (const a of assessed) counts[a.rag]++
+    return counts
+  }, [assessed])
+
+  const filteredData = useMemo(() => {
+    let result = assessed
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase()
+      result = result.filter(a =>
+        a.record.dgt_transmittalref?.toLowerCase().includes(term) ||
+        a.record.dgt_transmittalsubject?.toLowerCase().includes(term) ||
+        a.record.p6_task_code?.toLowerCase().includes(term)
+      )
+    }
+    if (ragFilter) result = result.filter(a => a.rag === ragFilter)
+    return result
+  }, [assessed, searchTerm, ragFilter])
+
+  const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE)
+  const paginatedData = filteredData.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE)
+
+  const startLink = (record: Engineering) => {
+    setLinkingId(record.dgt_dbp6bd041engineeringid)
+    setLinkValue(record.p6_task_code || '')
+  }
+
+  const handleSaveLink = async () => {
+    if (!linkingId) return
+    const code = linkValue.trim() || null
+    if (code && tasks.length > 0 && !taskByCode.has(code)) {
+      showError(`Task code ${code} is not in the P6 activity updates for this project`)
+      return
+    }
+    const { error } = await supabase
+      .from('dbp6_000401_engineering_current')
+      .update({ p6_task_code: code } as never)
+      .eq('dgt_dbp6bd041engineeringid', linkingId)
+    if (error) { showError('Failed to link activity: ' + error.message); return }
+    setData(prev => prev.map(r => r.dgt_dbp6bd041engineeringid === linkingId ? { ...r, p6_task_code: code } : r))
+    showSuccess(code ? `Linked to ${code}` : 'Link removed')
+    setLinkingId(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      {notification && <Notification type={notification.type} message={notification.message} onClose={hideNotification} />}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {(Object.keys(RAG_LABELS) as Rag[]).map(rag => (
+          <button
+            key={rag}
+            onClick={() => setRagFilter(prev => prev === rag ? '' : rag)}
+            className={`text-left bg-white border rounded-lg px-4 py-3 hover:bg-gray-50 ${ragFilter === rag ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}
+          >
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">{RAG_LABELS[rag]}</p>
+            <p className="text-xl font-semibold text-gray-900">{ragCounts[rag]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="w-full sm:w-72">
+          <SearchFilter value={searchTerm} onChange={setSearchTerm} placeholder="Search by Ref, Subject, Task code..." />
+        </div>
+        <select value={ragFilter} onChange={e => setRagFilter(e.target.value as Rag | '')} className={selectCls}>
+          <option value="">All RAG</option>
+          {(Object.keys(RAG_LABELS) as Rag[]).map(rag => <option key={rag} value={rag}>{RAG_LABELS[rag]}</option>)}
+        </select>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600" title="Days one review cycle takes, used to judge whether approval can still be met">
+          Review cycle
+          <input type="number" min="1" value={cycleDays} onChange={e => setCycleDays(Math.max(1, Number(e.target.value) || 1))} className={`${selectCls} w-16`} />
+          days
+        </label>
+        <button onClick={fetchData} className="ml-auto h-8 px-3 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+          Refresh
+        </button>
+      </div>
+
+      <datalist id="long-lead-task-codes">
+        {tasks.map(t => <option key={t.task_code} value={t.task_code}>{t.task_name}</option>)}
+      </datalist>
+
+      {loading ? <LoadingSpinner /> : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b border-gray-200">
+            <span className="text-sm text-gray-600">
+              Showing <span className="font-semibold text-gray-900">{filteredData.length}</span> long-lead item{filteredData.length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Trans. Ref', 'Subject', 'Status', 'Planned Approval', 'Countdown', 'RAG', 'P6 Activity', 'Actions'].map(label => (
+                    <th key={label} className="px-3 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {paginatedData.length === 0 ? (
+                  <tr><td colSpan={8} className="px-6 py-8 text-center text-gray-500">No long-lead items found</td></tr>
+                ) : paginatedData.map(({ record: r, rag, daysRemaining, daysNeeded }) => {
+                  const isLinking = linkingId === r.dgt_dbp6bd041engineeringid
+                  const task = r.p6_task_code ? taskByCode.get(r.p6_task_code) : undefined
+                  const output = r.p6_task_code ? outputByCode.get(r.p6_task_code) : undefined
+                  const atRisk = rag === 'red' && !!r.p6_task_code
+                  return (
+                    <tr key={r.dgt_dbp6bd041engineeringid} className={atRisk ? 'bg-red-50/50' : 'hover:bg-gray-50'}>
+                      <td className="px-3 py-2.5 text-sm text-gray-900 whitespace-nowrap">{r.dgt_transmittalref || '-'}</td>
+                      <td className="px-3 py-2.5 text-sm text-gray-900">{r.dgt_transmittalsubject || '-'}</td>
+                      <td className="px-3 py-2.5 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusCodes.badgeClass(r.dgt_status)}`}>{r.dgt_status || '-'}</span>
+                      </td>
+                      <td className="px-3 py-2.5 text-sm text-gray-900 whitespace-nowrap">{formatDate(r.dgt_plannedapprovaldate)}</td>
+                      <td className="px-3 py-2.5 text-sm whitespace-nowrap">
+                        {rag === 'complete' ? <span className="text-gray-400">-</span>
+                          : daysRemaining == null ? <span className="text-gray-400">No planned date</span>
+                          : (
+                            <span className={daysRemaining < 0 ? 'text-red-600 font-medium' : 'text-gray-900'}>
+                              {daysRemaining < 0 ? `${-daysRemaining}d overdue` : `${daysRemaining}d left`}
+                              <span className="block text-xs text-gray-400">{daysNeeded}d review needed</span>
+                            </span>
+                          )}
+                      </td>
+                      <td className="px-3 py-2.5 whitespace-nowrap">
+                        <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${RAG_STYLES[rag]}`}>{RAG_LABELS[rag]}</span>
+                      </td>
+                      <td className="px-3 py-2.5 text-sm">
+                        {isLinking ? (
+                          <input
+                            list="long-lead-task-codes"
+                            value={linkValue}
+                            onChange={e => setLinkValue(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') handleSaveLink(); if (e.key === 'Escape') setLinkingId(null) }}
+                            placeholder="Task code"
+                            className={inputCls}
+                            autoFocus
+                          />
+                        ) : r.p6_task_code ? (
+                          <div>
+                            <span className="font-mono text-gray-900">{r.p6_task_code}</span>
+                            {atRisk && <span className="ml-1.5 inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">At risk</span>}
+                            <div className="text-xs text-gray-500">{task?.task_name || 'Not in activity updates'}</div>
+                            {output && (
+                              <div className="text-xs text-gray-400">
+                                Early start {formatDate(output.early_start)} · float {output.total_float ?? '-'}
+                              </div>
+                            )}
+                          </div>
+                        ) : <span className="text-gray-400">-</span>}
+                      </td>
+                      <td className="px-3 py-2.5 whitespace-nowrap">
+                        {isLinking ? (
+                          <div className="flex items-center gap-1">
+                            <button onClick={handleSaveLink} className="p-1 text-green-600 rounded" title="Save"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" /></svg></button>
+                            <button onClick={() => setLinkingId(null)} className="p-1 text-red-500 rounded" title="Cancel"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                          </div>
+                        ) : (
+                          <button onClick={() => startLink(r)} className="text-xs font-medium text-blue-600 hover:underline">
+                            {r.p6_task_code ? 'Change link' : 'Link activity'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            totalItems={filteredData.length}
+            itemsPerPage={ITEMS_PER_PAGE}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
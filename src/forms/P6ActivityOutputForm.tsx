@@ -1,15 +1,27 @@
 import { useState, useEffect, useMemo } from 'react'
 import { schemaClient } from '@/lib/supabase'
-import type { P6ActivityOutput } from '@/types/database'
+import type { P6ActivityOutput, P6ActivityOutputSnapshot } from '@/types/database'
 import { Pagination } from '@/components/Pagination'
 import { SearchFilter } from '@/components/SearchFilter'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
 import { Notification } from '@/components/Notification'
 import { useNotification } from '@/hooks/useNotification'
+import { GanttChart } from '@/components/GanttChart'
+import { FloatAnalysis } from '@/components/FloatAnalysis'
+import { floatBand, parseFloatDays, FLOAT_BAND_LABELS } from '@/utils/float'
+import type { FloatBand } from '@/utils/float'
 
 const ITEMS_PER_PAGE = 15
+const SNAPSHOT_CHUNK = 500
 type SortField = 'activity_id' | 'activity_name' | 'status' | 'duration_pct_complete' | 'actual_start' | 'actual_finish' | 'early_start' | 'early_finish' | 'total_float'
 type SortDirection = 'asc' | 'desc'
+type ViewMode = 'table' | 'gantt' | 'float'
+
+const GANTT_ZOOM: { label: string; pxPerDay: number }[] = [
+  { label: 'Months', pxPerDay: 2 },
+  { label: 'Weeks', pxPerDay: 6 },
+  { label: 'Days', pxPerDay: 20 },
+]
 
 const formatDate = (d: string | null) => {
   if (!d) return '-'
@@ -40,6 +52,16 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
   const [currentPage, setCurrentPage] = useState(1)
   const [sortField, setSortField] = useState<SortField | null>(null)
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc')
+  const [viewMode, setViewMode] = useState<ViewMode>('table')
+  const [showPlanned, setShowPlanned] = useState(false)
+  const [ganttPxPerDay, setGanttPxPerDay] = useState(GANTT_ZOOM[1].pxPerDay)
+  const [dataDate, setDataDate] = useState<string | null>(null)
+  const [weekNum, setWeekNum] = useState<number | null>(null)
+  const [floatBandFilter, setFloatBandFilter] = useState<FloatBand | ''>('')
+  const [nearThreshold, setNearThreshold] = useState(10)
+  const [highThreshold, setHighThreshold] = useState(60)
+  const [previousData, setPreviousData] = useState<P6ActivityOutput[]>([])
+  const [previousWeek, setPreviousWeek] = useState<number | null>(null)
   const { notification, hideNotification, showError } = useNotification()
 
   const fetchData = async () => {
@@ -64,8 +86,74 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
     setLoading(false)
   }
 
-  useEffect(() => { fetchData() }, [projectTextId, schemaName])
-  useEffect(() => { setCurrentPage(1) }, [searchTerm, statusFilter, wbsFilter, activityTypeFilter])
+  const fetchDataDate = async () => {
+    // Cleared up front so the weekly snapshot never pairs a new project's output with the old week
+    setWeekNum(null)
+    if (!projectTextId) { setDataDate(null); return }
+    const { data: row } = await supabase
+      .from('dbp6_0000_projectdata')
+      .select('dgt_datadate, dgt_weeknum')
+      .eq('dgt_projectid', projectTextId)
+      .maybeSingle()
+    const project = row as { dgt_datadate: string | null; dgt_weeknum: number | null } | null
+    setDataDate(project?.dgt_datadate ?? null)
+    setWeekNum(project?.dgt_weeknum ?? null)
+  }
+
+  // Saves the output under the current week in p6_activity_output_history; a later load in the same week
+  // overwrites it, so each week keeps the last output seen before the week rolled over
+  const snapshotOutput = async (rows: P6ActivityOutput[], week: number) => {
+    const snapshot = rows
+      .filter(r => r.activity_id && r.project_code === projectTextId)
+      .map(({ id: _id, ...r }) => ({ ...r, week_num: week, snapshot_at: new Date().toISOString() }))
+    for (let i = 0; i < snapshot.length; i += SNAPSHOT_CHUNK) {
+      const { error } = await supabase
+        .from('p6_activity_output_history')
+        .upsert(snapshot.slice(i, i + SNAPSHOT_CHUNK) as never[], { onConflict: 'project_code,week_num,activity_id' })
+      if (error) { showError('Failed to save weekly output snapshot: ' + error.message); return }
+    }
+  }
+
+  // The previous weekly output is the latest snapshot in p6_activity_output_history before the current week
+  const fetchPreviousOutput = async () => {
+    setPreviousData([])
+    setPreviousWeek(null)
+    if (!projectTextId || weekNum == null) return
+    const { data: weekRows, error: weekError } = await supabase
+      .from('p6_activity_output_history')
+      .select('week_num')
+      .eq('project_code', projectTextId)
+      .lt('week_num', weekNum)
+      .order('week_num', { ascending: false })
+      .limit(1)
+    const week = (weekRows as { week_num: number }[] | null)?.[0]?.week_num
+    if (weekError || week == null) return
+    const PAGE_SIZE = 1000
+    let allRecords: P6ActivityOutputSnapshot[] = []
+    let from = 0
+    while (true) {
+      const { data: records, error } = await supabase
+        .from('p6_activity_output_history')
+        .select('*')
+        .eq('project_code', projectTextId)
+        .eq('week_num', week)
+        .order('activity_id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+      if (error) { showError('Failed to fetch previous output: ' + error.message); return }
+      allRecords = allRecords.concat((records as P6ActivityOutputSnapshot[] | null) || [])
+      if (!records || records.length < PAGE_SIZE) break
+      from += PAGE_SIZE
+    }
+    setPreviousData(allRecords)
+    setPreviousWeek(week)
+  }
+
+  useEffect(() => { fetchData(); fetchDataDate() }, [projectTextId, schemaName])
+  useEffect(() => {
+    if (!loading && projectTextId && weekNum != null && data.length > 0) snapshotOutput(data, weekNum)
+  }, [data, loading, weekNum, projectTextId])
+  useEffect(() => { if (viewMode === 'float') fetchPreviousOutput() }, [viewMode, projectTextId, schemaName, weekNum])
+  useEffect(() => { setCurrentPage(1) }, [searchTerm, statusFilter, wbsFilter, activityTypeFilter, floatBandFilter, nearThreshold, highThreshold])
 
   const statusOptions = useMemo(() =>
     [...new Set(data.map(r => r.status).filter(Boolean))].sort() as string[]
@@ -79,20 +167,26 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
     [...new Set(data.map(r => r.activity_type).filter(Boolean))].sort() as string[]
   , [data])
 
-  const filteredAndSortedData = useMemo(() => {
-    let result = data
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase()
-      result = result.filter(item =>
+  // Search and every filter except the float band; float analysis uses this so all bands stay visible
+  const floatAnalysisRows = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return data.filter(item =>
+      (!term ||
         item.activity_id?.toLowerCase().includes(term) ||
         item.activity_name?.toLowerCase().includes(term) ||
         item.status?.toLowerCase().includes(term) ||
-        item.wbs_code?.toLowerCase().includes(term)
-      )
+        item.wbs_code?.toLowerCase().includes(term)) &&
+      (!statusFilter || item.status === statusFilter) &&
+      (!wbsFilter || item.wbs_code === wbsFilter) &&
+      (!activityTypeFilter || item.activity_type === activityTypeFilter)
+    )
+  }, [data, searchTerm, statusFilter, wbsFilter, activityTypeFilter])
+
+  const filteredAndSortedData = useMemo(() => {
+    let result = floatAnalysisRows
+    if (floatBandFilter) {
+      result = result.filter(item => floatBand(parseFloatDays(item.total_float), nearThreshold, highThreshold) === floatBandFilter)
     }
-    if (statusFilter) result = result.filter(item => item.status === statusFilter)
-    if (wbsFilter) result = result.filter(item => item.wbs_code === wbsFilter)
-    if (activityTypeFilter) result = result.filter(item => item.activity_type === activityTypeFilter)
     if (sortField) {
       result = [...result].sort((a, b) => {
         const aVal = a[sortField]; const bVal = b[sortField]
@@ -104,7 +198,7 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
       })
     }
     return result
-  }, [data, searchTerm, statusFilter, wbsFilter, activityTypeFilter, sortField, sortDirection])
+  }, [floatAnalysisRows, floatBandFilter, nearThreshold, highThreshold, sortField, sortDirection])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) { setSortDirection(d => d === 'asc' ? 'desc' : 'asc') }
@@ -130,12 +224,13 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
     { key: 'total_float', label: 'Total Float' },
   ]
 
-  const hasActiveFilters = statusFilter || wbsFilter || activityTypeFilter
+  const hasActiveFilters = statusFilter || wbsFilter || activityTypeFilter || floatBandFilter
 
   const clearFilters = () => {
     setStatusFilter('')
     setWbsFilter('')
     setActivityTypeFilter('')
+    setFloatBandFilter('')
   }
 
   const totalPages = Math.ceil(filteredAndSortedData.length / ITEMS_PER_PAGE)
@@ -168,11 +263,51 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
           {activityTypeOptions.map(t => <option key={t} value={t}>{t}</option>)}
         </select>
 
+        <select value={floatBandFilter} onChange={e => setFloatBandFilter(e.target.value as FloatBand | '')} className={selectCls}>
+          <option value="">All Float</option>
+          {(Object.keys(FLOAT_BAND_LABELS) as FloatBand[]).map(b => <option key={b} value={b}>{FLOAT_BAND_LABELS[b]}</option>)}
+        </select>
+
+        {(floatBandFilter || viewMode === 'float') && (
+          <div className="flex items-center gap-1.5 text-xs text-gray-600">
+            <label htmlFor="near-threshold">Near-critical ≤</label>
+            <input id="near-threshold" type="number" min="0" value={nearThreshold} onChange={e => setNearThreshold(Math.max(0, Number(e.target.value) || 0))} className={`${selectCls} w-16`} />
+            <label htmlFor="high-threshold">High &gt;</label>
+            <input id="high-threshold" type="number" min="0" value={highThreshold} onChange={e => setHighThreshold(Math.max(0, Number(e.target.value) || 0))} className={`${selectCls} w-16`} />
+            <span className="text-gray-400">days</span>
+          </div>
+        )}
+
         {hasActiveFilters && (
           <button onClick={clearFilters} className="h-8 px-3 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
             Clear filters
           </button>
         )}
+
+        <div className="ml-auto flex items-center gap-3">
+          {viewMode === 'gantt' && (
+            <>
+              <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                <input type="checkbox" checked={showPlanned} onChange={e => setShowPlanned(e.target.checked)} />
+                Overlay planned dates
+              </label>
+              <select value={ganttPxPerDay} onChange={e => setGanttPxPerDay(Number(e.target.value))} className={selectCls}>
+                {GANTT_ZOOM.map(z => <option key={z.pxPerDay} value={z.pxPerDay}>{z.label}</option>)}
+              </select>
+            </>
+          )}
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {(['table', 'gantt', 'float'] as ViewMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`h-8 px-3 text-xs font-medium ${viewMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {mode === 'table' ? 'Table' : mode === 'gantt' ? 'Gantt' : 'Float'}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
       {loading ? <LoadingSpinner /> : (
@@ -181,7 +316,29 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
             <span className="text-sm text-gray-600">
               Showing <span className="font-semibold text-gray-900">{filteredAndSortedData.length}</span> record{filteredAndSortedData.length !== 1 ? 's' : ''}
             </span>
+            {viewMode === 'gantt' && (
+              <span className="ml-4 inline-flex items-center gap-3 text-xs text-gray-500">
+                <span className="inline-flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-green-500" />Completed</span>
+                <span className="inline-flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-blue-500" />In Progress</span>
+                <span className="inline-flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-gray-400" />Not Started</span>
+                {showPlanned && <span className="inline-flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-gray-300" />Planned</span>}
+                {dataDate && <span className="inline-flex items-center gap-1"><span className="w-px h-3 bg-red-500" />Data date {formatDate(dataDate)}</span>}
+              </span>
+            )}
           </div>
+          {viewMode === 'float' ? (
+            <FloatAnalysis
+              rows={floatAnalysisRows}
+              previousRows={previousData}
+              previousLabel={previousWeek != null ? `week ${previousWeek}` : null}
+              nearThreshold={nearThreshold}
+              highThreshold={highThreshold}
+              selectedBand={floatBandFilter}
+              onSelectBand={setFloatBandFilter}
+            />
+          ) : viewMode === 'gantt' ? (
+            <GanttChart rows={filteredAndSortedData} dataDate={dataDate} showPlanned={showPlanned} pxPerDay={ganttPxPerDay} />
+          ) : (<>
           <div className="overflow-x-auto">
             <table className="w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -220,6 +377,7 @@ export function P6ActivityOutputForm({ projectTextId, schemaName }: { projectTex
             </table>
           </div>
           <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} totalItems={filteredAndSortedData.length} itemsPerPage={ITEMS_PER_PAGE} />
+          </>)}
         </div>
       )}
     </div>
@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo, useRef } from 'react'
 import { useForm } from 'react-hook-form'
 import { supabase, schemaClient } from '@/lib/supabase'
-import type { P6ActivityUpdate, ProjectData } from '@/types/database'
+import type { P6ActivityUpdate, ProjectData, XerUpload } from '@/types/database'
 import { Modal } from '@/components/Modal'
 import { Pagination } from '@/components/Pagination'
 import { SearchFilter } from '@/components/SearchFilter'
@@ -10,6 +10,13 @@ import { FormField } from '@/components/FormField'
 import { Notification } from '@/components/Notification'
 import { useNotification } from '@/hooks/useNotification'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { QueueStatusBadge } from '@/components/QueueStatusBadge'
+import { useUpdateQueue, formatElapsed } from '@/hooks/useUpdateQueue'
+import { activityUpdatesToXer, encodeWindows1252, parseXerFile, summarizeXer, xerTasksToActivityUpdates } from '@/utils/xer'
+import type { XerActivityRow, XerDocument, XerSummary } from '@/utils/xer'
+import { PROGRESS_RULES, validateProgress } from '@/utils/progressRules'
+import type { ProgressViolation } from '@/utils/progressRules'
+import { toDay } from '@/utils/dates'
 
 interface P6ActivityUpdateFormData {
   project_code: string
@@ -51,6 +58,7 @@ interface ProjectHeader {
   week_num: number | null
   rpt_week_offset: number | null
   current_p6_project_code: string | null
+  project_start_date: string | null
 }
 
 interface ColumnFilters {
@@ -61,11 +69,12 @@ interface ColumnFilters {
   complete_pct: string
 }
 
-interface QueueEntry {
-  id: number | string
-  requested_at: string | null
-  status: string | null
-  completed_at: string | null
+type XerDiffKind = 'new' | 'changed' | 'unchanged'
+
+interface XerDiffEntry {
+  kind: XerDiffKind
+  row: XerActivityRow
+  changes: { field: XerDiffField; from: string; to: string }[]
 }
 
 const ITEMS_PER_PAGE = 15
@@ -82,11 +91,6 @@ const formatDate = (d: string | null) => {
   } catch { return d }
 }
 
-const toDateInputValue = (d: string | null) => {
-  if (!d) return ''
-  try { return new Date(d).toISOString().slice(0, 10) } catch { return '' }
-}
-
 const blankEdit = (): EditValues => ({
   project_code: '', task_code: '', status_code: '', wbs_id: '', task_name: '',
   act_start_date: '', act_end_date: '', complete_pct: '',
@@ -99,13 +103,13 @@ const recordToEditValues = (r: P6ActivityUpdate): EditValues => ({
   status_code: r.status_code || '',
   wbs_id: r.wbs_id || '',
   task_name: r.task_name || '',
-  act_start_date: toDateInputValue(r.act_start_date),
-  act_end_date: toDateInputValue(r.act_end_date),
+  act_start_date: toDay(r.act_start_date),
+  act_end_date: toDay(r.act_end_date),
   complete_pct: r.complete_pct != null ? String(r.complete_pct) : '',
   remain_drtn_hr_cnt: r.remain_drtn_hr_cnt != null ? String(r.remain_drtn_hr_cnt) : '',
   mrk_uptd: r.mrk_uptd != null ? String(r.mrk_uptd) : '0',
   delete_record_flag: r.delete_record_flag != null ? String(r.delete_record_flag) : '0',
-  data_date: toDateInputValue(r.data_date),
+  data_date: toDay(r.data_date),
   update_type: r.update_type || 'progress',
 })
 
@@ -157,6 +161,41 @@ function parseCSVLine(line: string): string[] {
   return result
 }
 
+const XER_DIFF_FIELDS = ['task_name', 'status_code', 'wbs_id', 'act_start_date', 'act_end_date', 'complete_pct', 'remain_drtn_hr_cnt'] as const
+type XerDiffField = typeof XER_DIFF_FIELDS[number]
+
+const XER_DIFF_LABELS: Record<XerDiffField, string> = {
+  task_name: 'Task Name',
+  status_code: 'Status',
+  wbs_id: 'WBS ID',
+  act_start_date: 'Act Start',
+  act_end_date: 'Act End',
+  complete_pct: '% Complete',
+  remain_drtn_hr_cnt: 'Remaining Hrs',
+}
+
+const diffValue = (field: XerDiffField, v: string | number | null): string => {
+  if (v == null || v === '') return ''
+  if (field === 'act_start_date' || field === 'act_end_date') return toDay(String(v))
+  if (field === 'complete_pct' || field === 'remain_drtn_hr_cnt') return String(Math.round(Number(v) * 100) / 100)
+  return String(v)
+}
+
+// Compares XER TASK rows against the existing activity updates, keyed on task_code
+const diffXerActivities = (incoming: XerActivityRow[], existing: P6ActivityUpdate[]): XerDiffEntry[] => {
+  const byCode = new Map(existing.map(r => [r.task_code, r]))
+  return incoming.map(row => {
+    const prev = byCode.get(row.task_code)
+    if (!prev) return { kind: 'new', row, changes: [] }
+    const changes = XER_DIFF_FIELDS
+      .map(field => ({ field, from: diffValue(field, prev[field]), to: diffValue(field, row[field]) }))
+      .filter(c => c.from !== c.to)
+    return { kind: changes.length ? 'changed' : 'unchanged', row, changes }
+  })
+}
+
+const PROGRESS_RULE_LABELS = Object.fromEntries(PROGRESS_RULES.map(r => [r.id, r.label]))
+
 const CSV_HEADERS = ['id', 'project_code', 'task_code', 'task_name', 'status_code', 'wbs_id', 'complete_pct', 'act_start_date', 'act_end_date', 'remain_drtn_hr_cnt', 'data_date', 'mrk_uptd', 'delete_record_flag', 'update_type'] as const
 
 export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTextId: string; schemaName: string }) {
@@ -176,8 +215,7 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
   const [showSaveConfirm, setShowSaveConfirm] = useState(false)
   const [showEditCancelConfirm, setShowEditCancelConfirm] = useState(false)
   const [runUpdateLoading, setRunUpdateLoading] = useState(false)
-  const [queueEntries, setQueueEntries] = useState<QueueEntry[]>([])
-  const [queueLoading, setQueueLoading] = useState(false)
+  const [progressViolations, setProgressViolations] = useState<ProgressViolation[] | null>(null)
   const [queueExpanded, setQueueExpanded] = useState(true)
   // Edit All mode
   const [editAllMode, setEditAllMode] = useState(false)
@@ -189,7 +227,20 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
   // XER Upload
   const [xerFile, setXerFile] = useState<File | null>(null)
   const [xerUploading, setXerUploading] = useState(false)
+  const [xerDoc, setXerDoc] = useState<XerDocument | null>(null)
+  const [xerParsing, setXerParsing] = useState(false)
+  const [xerParseError, setXerParseError] = useState<string | null>(null)
+  const [xerUploadedBy, setXerUploadedBy] = useState(() => localStorage.getItem('xerUploadedBy') ?? '')
   const xerInputRef = useRef<HTMLInputElement>(null)
+  // Last XER uploaded or loaded for this project; the XER export takes P6's task keys from it
+  const [exportSourceXer, setExportSourceXer] = useState<XerDocument | null>(null)
+  const [xerExporting, setXerExporting] = useState(false)
+  // Load activities from XER
+  const [xerLoadMode, setXerLoadMode] = useState(false)
+  const [xerLoadPage, setXerLoadPage] = useState(1)
+  const [xerLoadShowUnchanged, setXerLoadShowUnchanged] = useState(false)
+  const [xerLoadSaving, setXerLoadSaving] = useState(false)
+  const [showXerLoadConfirm, setShowXerLoadConfirm] = useState(false)
   // Project header
   const [projectHeader, setProjectHeader] = useState<ProjectHeader | null>(null)
   // Column filters
@@ -200,36 +251,54 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
   const { notification, hideNotification, showSuccess, showError } = useNotification()
   const schemaDb = schemaClient(schemaName)
 
-  const fetchQueueStatus = async () => {
-    if (!projectTextId) return
-    setQueueLoading(true)
-    const { data: entries } = await schemaDb
-      .from('p6_update_queue')
-      .select('id, requested_at, status, completed_at')
-      .eq('project_code', projectTextId)
-      .order('requested_at', { ascending: false })
-      .limit(5)
-    if (entries) setQueueEntries(entries as QueueEntry[])
-    setQueueLoading(false)
+  const { entries: queueEntries, loading: queueLoading, error: queueError, now: queueNow } = useUpdateQueue(projectTextId, schemaName)
+
+  const clearXerFile = () => {
+    setXerLoadMode(false)
+    setXerFile(null)
+    setXerDoc(null)
+    setXerParseError(null)
+    if (xerInputRef.current) xerInputRef.current.value = ''
+  }
+
+  // Parse the XER in the browser so a wrong or corrupt schedule is caught before upload
+  const handleSelectXer = async (file: File | null) => {
+    setXerLoadMode(false)
+    setXerFile(file)
+    setXerDoc(null)
+    setXerParseError(null)
+    if (!file) return
+    setXerParsing(true)
+    try {
+      setXerDoc(await parseXerFile(file))
+    } catch (err) {
+      setXerParseError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setXerParsing(false)
+    }
   }
 
+  const xerSummary: XerSummary | null = useMemo(() => xerDoc ? summarizeXer(xerDoc) : null, [xerDoc])
+  const expectedP6Code = projectHeader?.current_p6_project_code?.trim() || ''
+  const xerProjectMismatch = !!xerSummary && !!expectedP6Code && !xerSummary.projectCodes.includes(expectedP6Code)
+  const xerUploadBlocked = !xerSummary || xerProjectMismatch
+
   const handleUploadXer = async () => {
-    if (!xerFile) return
+    if (!xerFile || xerUploadBlocked) return
     setXerUploading(true)
     try {
-      const dataDate = projectHeader?.data_date
-        ? new Date(projectHeader.data_date).toISOString().slice(0, 10)
-        : ''
+      const dataDate = toDay(projectHeader?.data_date)
       const p6Code = projectHeader?.current_p6_project_code ?? ''
       const weekNum = projectHeader?.week_num ?? ''
-      const storagePath = `${projectTextId}/${p6Code}_Week${weekNum}_${dataDate}.xer`
+      // Timestamped so a re-upload for the same week keeps the earlier file for the upload history
+      const storagePath = `${projectTextId}/${p6Code}_Week${weekNum}_${dataDate}_${Date.now()}.xer`
 
       console.log('[XER Upload] Storage path:', storagePath)
       console.log('[XER Upload] File:', xerFile.name, xerFile.size, xerFile.type)
       console.log('[XER Upload] Using supabase client:', supabase)
       const { error: uploadError } = await supabase.storage
         .from('xer-uploads')
-        .upload(storagePath, xerFile, { upsert: true })
+        .upload(storagePath, xerFile)
       console.log('[XER Upload] Storage upload error (full):', uploadError)
       if (uploadError) throw new Error(uploadError.message)
       const insertPayload = {
@@ -240,6 +309,7 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
         p6_project_code: p6Code || null,
         data_date: dataDate || null,
         onedrive_status: 'pending',
+        uploaded_by: xerUploadedBy.trim() || null,
       }
       console.log('[XER Upload] Inserting into xer_uploads:', insertPayload)
       const { data: insertData, error: insertError } = await supabase
@@ -249,9 +319,10 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
       console.log('[XER Upload] Insert result — data:', insertData, 'error:', insertError)
       if (insertError) throw new Error(insertError.message)
 
+      localStorage.setItem('xerUploadedBy', xerUploadedBy.trim())
+      setExportSourceXer(xerDoc)
       showSuccess('XER uploaded successfully')
-      setXerFile(null)
-      if (xerInputRef.current) xerInputRef.current.value = ''
+      clearXerFile()
     } catch (err) {
       showError('Upload failed: ' + (err instanceof Error ? err.message : String(err)))
     } finally {
@@ -259,7 +330,134 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
     }
   }
 
+  const xerDiff = useMemo(() => {
+    if (!xerLoadMode || !xerDoc) return []
+    return diffXerActivities(xerTasksToActivityUpdates(xerDoc, projectTextId, expectedP6Code || null), data)
+  }, [xerLoadMode, xerDoc, projectTextId, expectedP6Code, data])
+
+  // Activities the team has marked updated but not yet submitted; loading the XER must not overwrite them
+  const markedTaskCodes = useMemo(() => new Set(data.filter(r => r.mrk_uptd === 1).map(r => r.task_code)), [data])
+
+  const xerDiffCounts = useMemo(() => {
+    const incoming = new Set(xerDiff.map(d => d.row.task_code))
+    const changed = xerDiff.filter(d => d.kind === 'changed')
+    return {
+      new: xerDiff.filter(d => d.kind === 'new').length,
+      changed: changed.filter(d => !markedTaskCodes.has(d.row.task_code)).length,
+      pending: changed.filter(d => markedTaskCodes.has(d.row.task_code)).length,
+      unchanged: xerDiff.filter(d => d.kind === 'unchanged').length,
+      notInXer: data.filter(r => !incoming.has(r.task_code)).length,
+    }
+  }, [xerDiff, data, markedTaskCodes])
+
+  const xerDiffVisible = useMemo(
+    () => xerLoadShowUnchanged ? xerDiff : xerDiff.filter(d => d.kind !== 'unchanged'),
+    [xerDiff, xerLoadShowUnchanged]
+  )
+
+  const openXerLoadMode = () => {
+    setXerLoadPage(1)
+    setXerLoadShowUnchanged(false)
+    setEditingId(null)
+    if (editAllMode) exitEditAllMode()
+    setXerLoadMode(true)
+  }
+
+  const handleApplyXerLoad = async () => {
+    setShowXerLoadConfirm(false)
+    // Deduplicate by task_code — keep last occurrence (see handleImportCSV)
+    const latest = Object.values(
+      xerDiff
+        .filter(d => d.kind !== 'unchanged')
+        .reduce<Record<string, XerDiffEntry>>((acc, d) => { acc[d.row.task_code] = d; return acc }, {})
+    )
+    const newRows = latest.filter(d => d.kind === 'new').map(d => d.row)
+    // Existing activities only take the schedule fields; mrk_uptd, update_type and data_date stay as the team left them
+    const changedRows = latest
+      .filter(d => d.kind === 'changed' && !markedTaskCodes.has(d.row.task_code))
+      .map(({ row: { mrk_uptd: _m, update_type: _u, data_date: _d, ...schedule } }) => schedule)
+    const skipped = latest.length - newRows.length - changedRows.length
+    if (newRows.length + changedRows.length === 0) {
+      if (skipped) showError(`${skipped} changed activities are marked updated and were left as they are`)
+      return
+    }
+    setXerLoadSaving(true)
+    // Separate calls: a bulk upsert sends one column list, which would null the omitted fields on changed rows
+    const upsertRows = async (rows: object[]) => rows.length === 0 ? { error: null } : await schemaDb
+      .from('p6_activity_updates')
+      .upsert(rows as never[], { onConflict: 'project_code,task_code' })
+    let { error } = await upsertRows(newRows)
+    if (!error) ({ error } = await upsertRows(changedRows))
+    if (error) { showError('Failed to load activities: ' + error.message) }
+    else {
+      showSuccess(
+        `Loaded ${newRows.length + changedRows.length} activities from XER` +
+        (skipped ? `; ${skipped} marked updated were skipped` : '')
+      )
+      setExportSourceXer(xerDoc)
+      setXerLoadMode(false)
+      await fetchData()
+    }
+    setXerLoadSaving(false)
+  }
+
+  const violationGroups = useMemo(() => {
+    const groups = new Map<string, ProgressViolation[]>()
+    for (const v of progressViolations ?? []) {
+      if (!groups.has(v.taskCode)) groups.set(v.taskCode, [])
+      groups.get(v.taskCode)!.push(v)
+    }
+    return [...groups.entries()]
+  }, [progressViolations])
+  const violationErrorCount = (progressViolations ?? []).filter(v => v.severity === 'error').length
+  const violationWarningCount = (progressViolations ?? []).length - violationErrorCount
+
+  // % complete per activity from the last P6 run, used to catch progress going backwards
+  const fetchPreviousPct = async (): Promise<Map<string, number>> => {
+    const PAGE_SIZE = 1000
+    const result = new Map<string, number>()
+    let from = 0
+    while (true) {
+      const { data: records, error } = await schemaDb
+        .from('p6_activity_output_flat')
+        .select('activity_id, percent_complete, duration_pct_complete')
+        .eq('project_code', projectTextId)
+        .range(from, from + PAGE_SIZE - 1)
+      if (error) throw new Error('Failed to fetch previous progress: ' + error.message)
+      const page = (records || []) as { activity_id: string | null; percent_complete: string | null; duration_pct_complete: string | null }[]
+      for (const r of page) {
+        // Output stores percent complete as a fraction (0–1)
+        const pct = parseFloat(r.percent_complete ?? r.duration_pct_complete ?? '')
+        if (r.activity_id && !isNaN(pct)) result.set(r.activity_id, Math.round(pct * 10000) / 100)
+      }
+      if (page.length < PAGE_SIZE) break
+      from += PAGE_SIZE
+    }
+    return result
+  }
+
+  // Progress rules run first; errors block the run, warnings need confirming via "Run anyway"
   const handleRunUpdate = async () => {
+    setRunUpdateLoading(true)
+    let violations: ProgressViolation[]
+    try {
+      violations = validateProgress(data, {
+        dataDate: projectHeader?.data_date ?? null,
+        projectStartDate: projectHeader?.project_start_date ?? null,
+        previousPct: await fetchPreviousPct(),
+      })
+    } catch (err) {
+      showError(err instanceof Error ? err.message : String(err))
+      setRunUpdateLoading(false)
+      return
+    }
+    setRunUpdateLoading(false)
+    if (violations.length > 0) { setProgressViolations(violations); return }
+    await queueRunUpdate()
+  }
+
+  const queueRunUpdate = async () => {
+    setProgressViolations(null)
     setRunUpdateLoading(true)
     try {
       const { data, error } = await schemaDb
@@ -273,7 +471,6 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
       if (error) throw new Error(error.message)
       console.log('Queue row created:', (data as { execution_id: string; id: number } | null)?.execution_id)
       showSuccess('P6 update triggered successfully')
-      setTimeout(fetchQueueStatus, 1500)
     } catch (err) {
       showError('Failed to run update: ' + (err instanceof Error ? err.message : String(err)))
     } finally {
@@ -291,11 +488,11 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
     if (!projectTextId) { setProjectHeader(null); return }
     const { data: row } = await schemaClient(schemaName)
       .from('dbp6_0000_projectdata')
-      .select('dgt_projectid, dgt_projectname, dgt_datadate, dgt_dbp6bd00projectdataid, dgt_weeknum, rpt_week_offset, current_p6_project_code')
+      .select('dgt_projectid, dgt_projectname, dgt_datadate, dgt_dbp6bd00projectdataid, dgt_weeknum, dgt_projectstartdate, rpt_week_offset, current_p6_project_code')
       .eq('dgt_projectid', projectTextId)
       .single()
     if (row) {
-      const d = row as Pick<ProjectData, 'dgt_projectid' | 'dgt_projectname' | 'dgt_datadate' | 'dgt_dbp6bd00projectdataid' | 'dgt_weeknum'> & { rpt_week_offset: number | null; current_p6_project_code: string | null }
+      const d = row as Pick<ProjectData, 'dgt_projectid' | 'dgt_projectname' | 'dgt_datadate' | 'dgt_dbp6bd00projectdataid' | 'dgt_weeknum' | 'dgt_projectstartdate'> & { rpt_week_offset: number | null; current_p6_project_code: string | null }
       setProjectHeader({
         project_code: d.dgt_projectid,
         project_name: d.dgt_projectname,
@@ -304,6 +501,7 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
         week_num: d.dgt_weeknum,
         rpt_week_offset: d.rpt_week_offset,
         current_p6_project_code: d.current_p6_project_code ?? null,
+        project_start_date: d.dgt_projectstartdate,
       })
     } else {
       setProjectHeader(null)
@@ -332,20 +530,13 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
     setLoading(false)
   }
 
-  useEffect(() => { fetchData(); fetchProjectHeader() }, [projectTextId])
+  useEffect(() => { fetchData(); fetchProjectHeader(); setExportSourceXer(null) }, [projectTextId])
   useEffect(() => { setCurrentPage(1) }, [searchTerm])
   useEffect(() => { setCurrentPage(1) }, [columnFilters])
   useEffect(() => {
     setColumnFilters({ task_code: '', task_name: '', status_code: '', wbs_id: '', complete_pct: '' })
   }, [projectTextId])
 
-  // Queue status: fetch on mount + auto-refresh every 10 s
-  useEffect(() => {
-    fetchQueueStatus()
-    const interval = setInterval(fetchQueueStatus, 10_000)
-    return () => clearInterval(interval)
-  }, [projectTextId])
-
   const filteredAndSortedData = useMemo(() => {
     let result = data
     if (searchTerm) {
@@ -581,6 +772,60 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
     URL.revokeObjectURL(url)
   }
 
+  // XER delta export — progressed rows only, so a scheduler can apply the week offline
+  const progressedCount = useMemo(() => data.filter(r => r.mrk_uptd === 1 && r.delete_record_flag !== 1).length, [data])
+
+  // Falls back to the project's latest stored upload when no XER was uploaded or loaded this session
+  const fetchLatestUploadedXer = async (): Promise<XerDocument | null> => {
+    const { data: upload, error } = await supabase
+      .from('xer_uploads')
+      .select('file_path')
+      .eq('project_code', projectTextId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (error) throw new Error(error.message)
+    const filePath = (upload as Pick<XerUpload, 'file_path'> | null)?.file_path
+    if (!filePath) return null
+    const { data: file, error: downloadError } = await supabase.storage.from('xer-uploads').download(filePath)
+    if (downloadError || !file) throw new Error(downloadError?.message ?? 'empty download')
+    return parseXerFile(file)
+  }
+
+  const handleExportXer = async () => {
+    if (progressedCount === 0) { showError('No progressed activities (Mrk Upd = 1) to export'); return }
+    // P6 matches imported TASK rows on task_id/proj_id, which only the schedule's own XER carries
+    let source = exportSourceXer
+    if (!source) {
+      setXerExporting(true)
+      try {
+        source = await fetchLatestUploadedXer()
+      } catch (err) {
+        showError('Failed to read the last uploaded XER: ' + (err instanceof Error ? err.message : String(err)))
+        return
+      } finally {
+        setXerExporting(false)
+      }
+      if (!source) { showError('Upload the current schedule XER first; the export takes task_id and proj_id from it'); return }
+      setExportSourceXer(source)
+    }
+    const xer = activityUpdatesToXer(data, source, expectedP6Code || null)
+    if (xer.exported === 0) { showError('None of the progressed activities are in the last uploaded XER'); return }
+    const blob = new Blob([encodeWindows1252(xer.text)], { type: 'text/plain;charset=windows-1252;' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    const p6Code = projectHeader?.current_p6_project_code || projectTextId || 'project'
+    a.download = `${p6Code}_Week${projectHeader?.week_num ?? ''}_progress_${new Date().toISOString().slice(0, 10)}.xer`
+    a.click()
+    URL.revokeObjectURL(url)
+    if (xer.unmatched.length) {
+      showError(`Exported ${xer.exported} activities; ${xer.unmatched.length} not in the last uploaded XER were left out: ${xer.unmatched.slice(0, 5).join(', ')}${xer.unmatched.length > 5 ? '…' : ''}`)
+    } else {
+      showSuccess(`Exported ${xer.exported} progressed activities to XER`)
+    }
+  }
+
   // CSV Import
   const handleImportCSV = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -761,6 +1006,17 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
             Export CSV
           </button>
 
+          {/* Export XER delta */}
+          <button
+            onClick={handleExportXer}
+            disabled={progressedCount === 0 || xerExporting}
+            title={progressedCount === 0 ? 'No activities marked as updated' : `Export ${progressedCount} progressed activities as an XER update fragment`}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+            Export XER
+          </button>
+
           {/* Import CSV */}
           <input
             ref={importInputRef}
@@ -824,6 +1080,74 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
         </div>
       </div>
 
+      {/* Progress validation */}
+      {progressViolations && (
+        <div className={`bg-white border rounded-lg shadow-sm overflow-hidden ${violationErrorCount > 0 ? 'border-red-200' : 'border-amber-200'}`}>
+          <div className={`flex flex-wrap items-center justify-between gap-3 px-4 py-2.5 border-b ${violationErrorCount > 0 ? 'border-red-100 bg-red-50' : 'border-amber-100 bg-amber-50'}`}>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className={`font-medium ${violationErrorCount > 0 ? 'text-red-900' : 'text-amber-900'}`}>Progress validation</span>
+              <span className="text-xs text-gray-500">{violationGroups.length} {violationGroups.length === 1 ? 'activity' : 'activities'}</span>
+              {violationErrorCount > 0 && (
+                <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">{violationErrorCount} errors</span>
+              )}
+              {violationWarningCount > 0 && (
+                <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-700">{violationWarningCount} warnings</span>
+              )}
+              <span className="text-xs text-gray-500">
+                {violationErrorCount > 0 ? 'Fix the errors before running the update.' : 'Review the warnings before running the update.'}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {violationErrorCount === 0 && (
+                <button
+                  onClick={queueRunUpdate}
+                  disabled={runUpdateLoading}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50"
+                >
+                  Run anyway
+                </button>
+              )}
+              <button
+                onClick={() => setProgressViolations(null)}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0">
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Activity ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Task Name</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Rule</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Detail</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {violationGroups.map(([taskCode, violations]) => violations.map((v, i) => (
+                  <tr key={`${taskCode}:${v.rule}`} className="hover:bg-gray-50">
+                    {i === 0 && (
+                      <>
+                        <td rowSpan={violations.length} className="px-4 py-2 align-top font-mono text-gray-900 whitespace-nowrap">{taskCode}</td>
+                        <td rowSpan={violations.length} className="px-4 py-2 align-top text-gray-700">{v.taskName || '-'}</td>
+                      </>
+                    )}
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className={`inline-flex px-1.5 py-0.5 rounded font-medium ${v.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {PROGRESS_RULE_LABELS[v.rule]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{v.message}</td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Queue Status */}
       {projectTextId && (
         <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
@@ -837,7 +1161,7 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
               </svg>
               <span className="text-sm font-medium text-gray-700">Update Queue</span>
-              <span className="text-xs text-gray-400">(last 5 entries)</span>
+              <span className="text-xs text-gray-400">(live, last 10 entries)</span>
             </div>
             <div className="flex items-center gap-2">
               {queueLoading && (
@@ -855,6 +1179,9 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
             </div>
           </button>
 
+          {queueExpanded && queueError && (
+            <p className="px-4 py-2 text-xs text-red-600 border-b border-gray-100">Failed to load the update queue: {queueError}</p>
+          )}
           {queueExpanded && (queueEntries.length === 0 ? (
             <p className="px-4 py-4 text-sm text-gray-400 text-center">
               {queueLoading ? 'Loading…' : 'No queue entries found for this project.'}
@@ -866,19 +1193,12 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
                   <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Requested At</th>
                   <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Status</th>
                   <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Completed At</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Elapsed</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Execution ID</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                {queueEntries.map((entry) => {
-                  const status = (entry.status || '').toLowerCase()
-                  const statusConfig: Record<string, { dot: string; label: string; text: string }> = {
-                    pending:    { dot: 'bg-yellow-400', label: 'Pending',    text: 'text-yellow-700' },
-                    processing: { dot: 'bg-blue-500',   label: 'Processing', text: 'text-blue-700'   },
-                    completed:  { dot: 'bg-green-500',  label: 'Completed',  text: 'text-green-700'  },
-                    error:      { dot: 'bg-red-500',    label: 'Error',      text: 'text-red-700'    },
-                  }
-                  const cfg = statusConfig[status] ?? { dot: 'bg-gray-400', label: entry.status || '-', text: 'text-gray-600' }
-                  return (
+                {queueEntries.map((entry) => (
                     <tr key={String(entry.id)} className="hover:bg-gray-50">
                       <td className="px-4 py-2.5 text-gray-700 whitespace-nowrap">
                         {entry.requested_at
@@ -886,19 +1206,17 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
                           : '-'}
                       </td>
                       <td className="px-4 py-2.5">
-                        <span className={`inline-flex items-center gap-1.5 font-medium ${cfg.text}`}>
-                          <span className={`w-2 h-2 rounded-full shrink-0 ${cfg.dot}`} />
-                          {cfg.label}
-                        </span>
+                        <QueueStatusBadge status={entry.status} />
                       </td>
                       <td className="px-4 py-2.5 text-gray-700 whitespace-nowrap">
                         {entry.completed_at
                           ? new Date(entry.completed_at).toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' })
                           : '-'}
                       </td>
+                      <td className="px-4 py-2.5 text-gray-700 whitespace-nowrap tabular-nums">{formatElapsed(entry, queueNow)}</td>
+                      <td className="px-4 py-2.5 font-mono text-gray-500 whitespace-nowrap" title={entry.execution_id ?? undefined}>{entry.execution_id || '-'}</td>
                     </tr>
-                  )
-                })}
+                ))}
               </tbody>
             </table>
           ))}
@@ -920,7 +1238,7 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
               type="file"
               accept=".xer"
               className="hidden"
-              onChange={e => setXerFile(e.target.files?.[0] ?? null)}
+              onChange={e => handleSelectXer(e.target.files?.[0] ?? null)}
             />
             <button
               type="button"
@@ -938,11 +1256,21 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
                 {xerFile.name}
               </span>
             )}
+            {xerFile && (
+              <input
+                type="text"
+                value={xerUploadedBy}
+                onChange={e => setXerUploadedBy(e.target.value)}
+                placeholder="Uploaded by"
+                className="h-8 w-40 px-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-400"
+              />
+            )}
             {xerFile && (
               <button
                 type="button"
                 onClick={handleUploadXer}
-                disabled={xerUploading}
+                disabled={xerUploading || xerParsing || xerUploadBlocked}
+                title={xerProjectMismatch ? 'XER project does not match the current P6 project code' : undefined}
                 className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50"
               >
                 {xerUploading ? (
@@ -963,7 +1291,146 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
                 )}
               </button>
             )}
+            {xerFile && (
+              <button
+                type="button"
+                onClick={openXerLoadMode}
+                disabled={xerUploading || xerParsing || xerUploadBlocked || xerLoadMode}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <svg className="w-4 h-4 mr-1.5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+                </svg>
+                Load activities from XER
+              </button>
+            )}
+            {xerFile && !xerUploading && (
+              <button type="button" onClick={clearXerFile} title="Remove file" className="p-1 text-gray-400 hover:bg-gray-100 rounded">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            )}
+          </div>
+          {xerParsing && (
+            <p className="px-4 pb-3 text-xs text-gray-500">Reading XER…</p>
+          )}
+          {xerParseError && (
+            <p className="px-4 pb-3 text-xs text-red-600">Could not read XER: {xerParseError}</p>
+          )}
+          {xerSummary && (
+            <div className="px-4 pb-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-6 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md">
+                <div>
+                  <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">XER Project</p>
+                  <p className="text-sm font-mono font-semibold text-gray-900">{xerSummary.projectShortName || '-'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Data Date</p>
+                  <p className="text-sm font-semibold text-gray-900">{formatDate(xerSummary.dataDate)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Activities</p>
+                  <p className="text-sm font-semibold text-gray-900">{xerSummary.activityCount.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">WBS</p>
+                  <p className="text-sm font-semibold text-gray-900">{xerSummary.wbsCount.toLocaleString()}</p>
+                </div>
+                {xerSummary.projectCodes.length > 1 && (
+                  <div>
+                    <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Projects in File</p>
+                    <p className="text-sm font-mono text-gray-700">{xerSummary.projectCodes.join(', ')}</p>
+                  </div>
+                )}
+              </div>
+              {xerProjectMismatch && (
+                <p className="text-xs text-red-600">
+                  This XER is for <span className="font-mono font-semibold">{xerSummary.projectCodes.join(', ') || 'an unknown project'}</span> but
+                  the current P6 project code is <span className="font-mono font-semibold">{expectedP6Code}</span>. Upload is blocked.
+                </p>
+              )}
+              {!expectedP6Code && (
+                <p className="text-xs text-amber-700">No current P6 project code is set for this project, so the XER project could not be checked.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Load activities from XER */}
+      {xerLoadMode && (
+        <div className="bg-white border border-blue-200 rounded-lg shadow-sm overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2.5 border-b border-blue-100 bg-blue-50">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="font-medium text-blue-900">Load activities from XER</span>
+              <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">{xerDiffCounts.new} new</span>
+              <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-700">{xerDiffCounts.changed} changed</span>
+              <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-500">{xerDiffCounts.unchanged} unchanged</span>
+              {xerDiffCounts.notInXer > 0 && (
+                <span className="text-xs text-gray-500">{xerDiffCounts.notInXer} existing not in XER (left as is)</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                <input type="checkbox" checked={xerLoadShowUnchanged} onChange={e => { setXerLoadShowUnchanged(e.target.checked); setXerLoadPage(1) }} />
+                Show unchanged
+              </label>
+              <button
+                onClick={() => setShowXerLoadConfirm(true)}
+                disabled={xerLoadSaving || xerDiffCounts.new + xerDiffCounts.changed === 0}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {xerLoadSaving ? 'Loading...' : `Apply ${xerDiffCounts.new + xerDiffCounts.changed} changes`}
+              </button>
+              <button
+                onClick={() => setXerLoadMode(false)}
+                disabled={xerLoadSaving}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Activity ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Task Name</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Change</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wide">Fields</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {xerDiffVisible.length === 0 ? (
+                  <tr><td colSpan={4} className="px-4 py-4 text-center text-gray-400">No differences from the existing activities.</td></tr>
+                ) : xerDiffVisible.slice((xerLoadPage - 1) * ITEMS_PER_PAGE, xerLoadPage * ITEMS_PER_PAGE).map(d => (
+                  <tr key={d.row.task_code} className="hover:bg-gray-50 align-top">
+                    <td className="px-4 py-2 font-mono text-gray-900 whitespace-nowrap">{d.row.task_code}</td>
+                    <td className="px-4 py-2 text-gray-700">{d.row.task_name || '-'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className={`inline-flex px-1.5 py-0.5 rounded font-medium ${d.kind === 'new' ? 'bg-green-100 text-green-700' : d.kind === 'changed' ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'}`}>
+                        {d.kind}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {d.changes.length === 0 ? '-' : (
+                        <ul className="space-y-0.5">
+                          {d.changes.map(c => (
+                            <li key={c.field}>
+                              <span className="text-gray-500">{XER_DIFF_LABELS[c.field]}:</span>{' '}
+                              <span className="line-through text-red-600">{c.from || '∅'}</span>{' → '}
+                              <span className="text-green-700">{c.to || '∅'}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
+          <Pagination currentPage={xerLoadPage} totalPages={Math.ceil(xerDiffVisible.length / ITEMS_PER_PAGE)} onPageChange={setXerLoadPage} totalItems={xerDiffVisible.length} itemsPerPage={ITEMS_PER_PAGE} />
         </div>
       )}
 
@@ -1190,6 +1657,10 @@ export function P6ActivityUpdatesForm({ projectTextId, schemaName }: { projectTe
         </form>
       </Modal>
 
+      <ConfirmDialog isOpen={showXerLoadConfirm} title="Load Activities from XER" variant="warning"
+        message={`Upsert ${xerDiffCounts.new} new and ${xerDiffCounts.changed} changed activities from the XER into Activity Updates? Existing values for these activities will be overwritten.${xerDiffCounts.pending ? ` ${xerDiffCounts.pending} changed activities are marked updated and will be skipped so their pending progress is kept.` : ''}`}
+        confirmLabel="Load" loading={xerLoadSaving}
+        onConfirm={handleApplyXerLoad} onCancel={() => setShowXerLoadConfirm(false)} />
       <ConfirmDialog isOpen={deleteConfirm != null} title="Delete Record" message="Permanently delete this activity update?" confirmLabel="Delete" loading={deleting}
         onConfirm={() => deleteConfirm != null && handleDelete(deleteConfirm)} onCancel={() => setDeleteConfirm(null)} />
       <ConfirmDialog isOpen={showDiscardConfirm} title="Discard Changes" message="You have unsaved changes. Discard them?" confirmLabel="Discard" cancelLabel="Keep Editing" variant="warning"
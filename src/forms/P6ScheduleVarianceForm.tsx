@@ -0,0 +1,284 @@
+import { useState, useEffect, useMemo } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { P6ActivityOutput, P6ActivityUpdate } from '@/types/database'
+import { Pagination } from '@/components/Pagination'
+import { SearchFilter } from '@/components/SearchFilter'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { Notification } from '@/components/Notification'
+import { useNotification } from '@/hooks/useNotification'
+import { exportToCsv } from '@/utils/csv'
+import { toDay } from '@/utils/dates'
+
+const ITEMS_PER_PAGE = 15
+// Percent complete differences below this many points are treated as rounding
+const PCT_TOLERANCE = 0.5
+
+type VarianceFlag = 'start' | 'finish' | 'pct' | 'missing_update' | 'missing_output'
+
+interface VarianceRow {
+  activityId: string
+  activityName: string | null
+  output: P6ActivityOutput | null
+  update: P6ActivityUpdate | null
+  outputPct: number | null
+  flags: VarianceFlag[]
+}
+
+const FLAG_LABELS: Record<VarianceFlag, string> = {
+  start: 'Actual start differs',
+  finish: 'Actual finish differs',
+  pct: '% complete differs',
+  missing_update: 'Not in updates',
+  missing_output: 'Not in output',
+}
+
+const FLAG_CLS: Record<VarianceFlag, string> = {
+  start: 'bg-amber-100 text-amber-700',
+  finish: 'bg-amber-100 text-amber-700',
+  pct: 'bg-orange-100 text-orange-700',
+  missing_update: 'bg-red-100 text-red-700',
+  missing_output: 'bg-purple-100 text-purple-700',
+}
+
+const formatDate = (d: string | null) => {
+  if (!d) return '-'
+  try { return new Date(d).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }) }
+  catch { return d }
+}
+
+// p6_activity_output_flat stores percent complete as a fraction (0–1), like duration_pct_complete
+const outputPctComplete = (r: P6ActivityOutput): number | null => {
+  const raw = r.percent_complete ?? r.duration_pct_complete
+  if (raw == null || raw === '') return null
+  const n = parseFloat(raw)
+  return isNaN(n) ? null : Math.round(n * 10000) / 100
+}
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+async function fetchAll<T>(
+  supabase: ReturnType<typeof schemaClient>,
+  table: string,
+  orderBy: string,
+  projectTextId: string
+): Promise<{ rows: T[]; error: string | null }> {
+  const PAGE_SIZE = 1000
+  let rows: T[] = []
+  let from = 0
+  while (true) {
+    let query = supabase
+      .from(table as never)
+      .select('*')
+      .order(orderBy, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (projectTextId) query = query.eq('project_code', projectTextId)
+    const { data: records, error } = await query
+    if (error) return { rows, error: error.message }
+    rows = rows.concat((records as T[] | null) || [])
+    if (!records || records.length < PAGE_SIZE) break
+    from += PAGE_SIZE
+  }
+  return { rows, error: null }
+}
+
+export function P6ScheduleVarianceForm({ projectTextId, schemaName }: { projectTextId: string; schemaName: string }) {
+  const supabase = schemaClient(schemaName)
+  const [outputs, setOutputs] = useState<P6ActivityOutput[]>([])
+  const [updates, setUpdates] = useState<P6ActivityUpdate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [flagFilter, setFlagFilter] = useState<VarianceFlag | ''>('')
+  const [showMatched, setShowMatched] = useState(false)
+  const [currentPage, setCurrentPage] = useState(1)
+  const { notification, hideNotification, showError } = useNotification()
+
+  const fetchData = async () => {
+    setLoading(true)
+    const [out, upd] = await Promise.all([
+      fetchAll<P6ActivityOutput>(supabase, 'p6_activity_output_flat', 'activity_id', projectTextId),
+      fetchAll<P6ActivityUpdate>(supabase, 'p6_activity_updates', 'task_code', projectTextId),
+    ])
+    if (out.error) showError('Failed to fetch activity output: ' + out.error)
+    if (upd.error) showError('Failed to fetch activity updates: ' + upd.error)
+    setOutputs(out.rows)
+    // Rows flagged for deletion are on their way out of P6, as in the XER export
+    setUpdates(upd.rows.filter(r => r.delete_record_flag !== 1))
+    setLoading(false)
+  }
+
+  useEffect(() => { fetchData() }, [projectTextId, schemaName])
+  useEffect(() => { setCurrentPage(1) }, [searchTerm, flagFilter, showMatched])
+
+  // Reconcile on activity_id (output) = task_code (updates)
+  const varianceRows = useMemo(() => {
+    const updatesByCode = new Map(updates.map(u => [u.task_code, u]))
+    const seen = new Set<string>()
+    const rows: VarianceRow[] = []
+    for (const o of outputs) {
+      if (!o.activity_id) continue
+      seen.add(o.activity_id)
+      const u = updatesByCode.get(o.activity_id) ?? null
+      const outputPct = outputPctComplete(o)
+      const flags: VarianceFlag[] = []
+      if (!u) flags.push('missing_update')
+      else {
+        if (toDay(o.actual_start) !== toDay(u.act_start_date)) flags.push('start')
+        if (toDay(o.actual_finish) !== toDay(u.act_end_date)) flags.push('finish')
+        if (Math.abs((outputPct ?? 0) - (u.complete_pct ?? 0)) > PCT_TOLERANCE) flags.push('pct')
+      }
+      rows.push({ activityId: o.activity_id, activityName: o.activity_name, output: o, update: u, outputPct, flags })
+    }
+    for (const u of updates) {
+      if (seen.has(u.task_code)) continue
+      rows.push({ activityId: u.task_code, activityName: u.task_name, output: null, update: u, outputPct: null, flags: ['missing_output'] })
+    }
+    return rows
+  }, [outputs, updates])
+
+  const flagCounts = useMemo(() => {
+    const counts: Record<VarianceFlag, number> = { start: 0, finish: 0, pct: 0, missing_update: 0, missing_output: 0 }
+    varianceRows.forEach(r => r.flags.forEach(f => { counts[f]++ }))
+    return counts
+  }, [varianceRows])
+
+  const matchedCount = useMemo(() => varianceRows.filter(r => r.flags.length === 0).length, [varianceRows])
+
+  const filteredData = useMemo(() => {
+    let result = showMatched ? varianceRows : varianceRows.filter(r => r.flags.length > 0)
+    if (flagFilter) result = result.filter(r => r.flags.includes(flagFilter))
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase()
+      result = result.filter(r =>
+        r.activityId.toLowerCase().includes(term) ||
+        r.activityName?.toLowerCase().includes(term)
+      )
+    }
+    return result
+  }, [varianceRows, showMatched, flagFilter, searchTerm])
+
+  const handleExport = () => {
+    exportToCsv(
+      `schedule_variance_${projectTextId || 'all'}_${new Date().toISOString().slice(0, 10)}`,
+      ['Activity ID', 'Activity Name', 'Flags', 'Output Actual Start', 'Submitted Actual Start', 'Output Actual Finish', 'Submitted Actual Finish', 'Output % Complete', 'Submitted % Complete'],
+      filteredData.map(r => [
+        r.activityId,
+        r.activityName,
+        r.flags.map(f => FLAG_LABELS[f]).join('; '),
+        toDay(r.output?.actual_start ?? null),
+        toDay(r.update?.act_start_date ?? null),
+        toDay(r.output?.actual_finish ?? null),
+        toDay(r.update?.act_end_date ?? null),
+        r.outputPct,
+        r.update?.complete_pct,
+      ])
+    )
+  }
+
+  const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE)
+  const paginatedData = filteredData.slice(
+    (currentPage - 1) * ITEMS_PER_PAGE,
+    currentPage * ITEMS_PER_PAGE
+  )
+
+  const dateCell = (outputVal: string | null, submittedVal: string | null, flagged: boolean) => (
+    <td className={`px-3 py-2.5 text-xs whitespace-nowrap ${flagged ? 'bg-amber-50' : ''}`}>
+      <div className="text-gray-700">{formatDate(outputVal)}</div>
+      <div className={flagged ? 'text-amber-700 font-medium' : 'text-gray-400'}>{formatDate(submittedVal)}</div>
+    </td>
+  )
+
+  return (
+    <div className="space-y-4">
+      {notification && <Notification type={notification.type} message={notification.message} onClose={hideNotification} />}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div className="bg-white border border-gray-200 rounded-lg px-4 py-3">
+          <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Matched</p>
+          <p className="text-xl font-semibold text-green-700">{matchedCount}</p>
+        </div>
+        {(Object.keys(FLAG_LABELS) as VarianceFlag[]).map(f => (
+          <button
+            key={f}
+            onClick={() => setFlagFilter(prev => prev === f ? '' : f)}
+            className={`text-left bg-white border rounded-lg px-4 py-3 hover:bg-gray-50 ${flagFilter === f ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}
+          >
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">{FLAG_LABELS[f]}</p>
+            <p className="text-xl font-semibold text-gray-900">{flagCounts[f]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="w-full sm:w-72">
+          <SearchFilter value={searchTerm} onChange={setSearchTerm} placeholder="Search by Activity ID or Name..." />
+        </div>
+        <select value={flagFilter} onChange={e => setFlagFilter(e.target.value as VarianceFlag | '')} className={selectCls}>
+          <option value="">All variances</option>
+          {(Object.keys(FLAG_LABELS) as VarianceFlag[]).map(f => <option key={f} value={f}>{FLAG_LABELS[f]}</option>)}
+        </select>
+        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+          <input type="checkbox" checked={showMatched} onChange={e => setShowMatched(e.target.checked)} />
+          Show matched activities
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button onClick={fetchData} className="h-8 px-3 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            Refresh
+          </button>
+          <button onClick={handleExport} className="h-8 px-3 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {loading ? <LoadingSpinner /> : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b border-gray-200">
+            <span className="text-sm text-gray-600">
+              Showing <span className="font-semibold text-gray-900">{filteredData.length}</span> activit{filteredData.length !== 1 ? 'ies' : 'y'}
+              <span className="text-gray-400"> · each cell shows P6 output above and submitted update below</span>
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Activity ID', 'Activity Name', 'Variance', 'Actual Start', 'Actual Finish', '% Complete'].map(label => (
+                    <th key={label} className="px-3 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {paginatedData.length === 0 ? (
+                  <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-500">No variances found</td></tr>
+                ) : paginatedData.map(r => (
+                  <tr key={r.activityId} className="hover:bg-gray-50">
+                    <td className="px-3 py-2.5 text-sm font-mono text-gray-900 whitespace-nowrap">{r.activityId}</td>
+                    <td className="px-3 py-2.5 text-sm text-gray-900">{r.activityName || '-'}</td>
+                    <td className="px-3 py-2.5">
+                      <div className="flex flex-wrap gap-1">
+                        {r.flags.length === 0
+                          ? <span className="inline-flex px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">Matched</span>
+                          : r.flags.map(f => (
+                            <span key={f} className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium whitespace-nowrap ${FLAG_CLS[f]}`}>{FLAG_LABELS[f]}</span>
+                          ))}
+                      </div>
+                    </td>
+                    {dateCell(r.output?.actual_start ?? null, r.update?.act_start_date ?? null, r.flags.includes('start'))}
+                    {dateCell(r.output?.actual_finish ?? null, r.update?.act_end_date ?? null, r.flags.includes('finish'))}
+                    <td className={`px-3 py-2.5 text-xs whitespace-nowrap ${r.flags.includes('pct') ? 'bg-orange-50' : ''}`}>
+                      <div className="text-gray-700">{r.outputPct != null ? `${r.outputPct}%` : '-'}</div>
+                      <div className={r.flags.includes('pct') ? 'text-orange-700 font-medium' : 'text-gray-400'}>
+                        {r.update?.complete_pct != null ? `${r.update.complete_pct}%` : '-'}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} totalItems={filteredData.length} itemsPerPage={ITEMS_PER_PAGE} />
+        </div>
+      )}
+    </div>
+  )
+}
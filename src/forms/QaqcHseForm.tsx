@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { schemaClient } from '@/lib/supabase'
-import type { QaqcHse, Discipline, Type } from '@/types/database'
+import type { Engineering, QaqcHse, Discipline, Type } from '@/types/database'
 import { Modal } from '@/components/Modal'
 import { Pagination } from '@/components/Pagination'
 import { SearchFilter } from '@/components/SearchFilter'
@@ -14,6 +14,17 @@ import { DateColumnFilter } from '@/components/DateColumnFilter'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { CsvControls } from '@/components/CsvControls'
 import { exportToCsv } from '@/utils/csv'
+import { applyRegisterImport, planImport } from '@/utils/csvImport'
+import type { ImportPlan } from '@/utils/csvImport'
+import { ImportPreviewModal } from '@/components/ImportPreviewModal'
+import { useStatusCodes } from '@/hooks/useStatusCodes'
+import { STATUS_MEANINGS, STATUS_MEANING_LABELS } from '@/utils/statusCodes'
+import { TurnaroundKpiPanel } from '@/components/TurnaroundKpiPanel'
+import type { TurnaroundItem } from '@/components/TurnaroundKpiPanel'
+import { QaqcAgeingReport } from '@/components/QaqcAgeingReport'
+import { QaqcRejectionModal } from '@/components/QaqcRejectionModal'
+import type { RejectionValues } from '@/components/QaqcRejectionModal'
+import { QaqcRevisionChainDrawer } from '@/components/QaqcRevisionChainDrawer'
 
 interface QaqcHseFormData {
   dgt_docid: string
@@ -29,13 +40,28 @@ interface QaqcHseFormData {
 
 const ITEMS_PER_PAGE = 15
 
-type EditableField = 'dgt_status' | 'mod_id'
+type EditableField = 'dgt_status' | 'dgt_linkedtransmittalref' | 'mod_id'
+
+type LinkedTransmittal = Pick<Engineering, 'dgt_transmittalref' | 'dgt_transmittalsubject' | 'dgt_revision' | 'dgt_status'>
 
 type EditingCell = {
   recordId: string
   field: EditableField
 } | null
 
+type QaqcImportRow = Pick<QaqcHse,
+  'dgt_dbp6bd00projectdataid' | 'dgt_discipline' | 'dgt_docref' | 'dgt_documentsubject' | 'dgt_documenttype' | 'dgt_revision' | 'dgt_status' |
+  'dgt_submissiondate' | 'dgt_responsedate' | 'dgt_date_issued_to_contractor' | 'dgt_rejectionreason' | 'dgt_linkedtransmittalref' | 'week_num' | 'mod_id'
+>
+
+// History rows get their own id; the rest of the revision is copied as-is
+const historyRow = (record: QaqcHse) => {
+  const row: Partial<QaqcHse> = { ...record }
+  delete row.dgt_dbp6bd0402qaqchseid
+  delete row.created_at
+  return row
+}
+
 type SortField = 'dgt_docid' | 'dgt_docref' | 'dgt_documentsubject' | 'dgt_discipline' | 'dgt_documenttype' | 'dgt_submissiondate' | 'dgt_responsedate' | 'dgt_date_issued_to_contractor' | 'dgt_status' | 'week_num'
 type SortDirection = 'asc' | 'desc'
 
@@ -58,6 +84,14 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
   const [showDisciplineLegend, setShowDisciplineLegend] = useState(false)
   const [types, setTypes] = useState<Type[]>([])
   const [showTypeLegend, setShowTypeLegend] = useState(false)
+  const [showKpis, setShowKpis] = useState(false)
+  const [showAgeing, setShowAgeing] = useState(false)
+  // isNew: the record comes from the create modal and is only inserted once the rejection is confirmed
+  const [rejecting, setRejecting] = useState<{ record: QaqcHse; status: string; isNew?: boolean } | null>(null)
+  const [rejectSaving, setRejectSaving] = useState(false)
+  const [chainRef, setChainRef] = useState<string | null>(null)
+  const [importPlan, setImportPlan] = useState<ImportPlan<QaqcImportRow> | null>(null)
+  const [importing, setImporting] = useState(false)
   // Column filters
   const [filters, setFilters] = useState({
     dgt_docid: '',
@@ -68,9 +102,14 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
     dgt_responsedate: '',
     dgt_date_issued_to_contractor: '',
     dgt_status: '',
+    status_meaning: '',
+    transmittal_link: '',
     week_num: '',
     mod_id: '',
   })
+  const statusCodes = useStatusCodes(schemaName, 'qaqc')
+  const engineeringCodes = useStatusCodes(schemaName, 'engineering')
+  const [transmittals, setTransmittals] = useState<LinkedTransmittal[]>([])
   const [webhookStatus, setWebhookStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle')
   const { notification, hideNotification, showSuccess, showError } = useNotification()
 
@@ -130,12 +169,34 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
     setTypes(records || [])
   }
 
+  const fetchTransmittals = async () => {
+    const { data: records } = await supabase
+      .from('dbp6_000401_engineering_current')
+      .select('dgt_transmittalref, dgt_transmittalsubject, dgt_revision, dgt_status')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+      .order('dgt_transmittalref', { ascending: true })
+    setTransmittals((records || []) as LinkedTransmittal[])
+  }
+
   useEffect(() => {
     fetchData()
     fetchDisciplines()
     fetchTypes()
+    fetchTransmittals()
   }, [projectId])
 
+  const transmittalByRef = useMemo(
+    () => new Map(transmittals.map(t => [t.dgt_transmittalref, t])),
+    [transmittals]
+  )
+
+  const linkedStatus = (record: QaqcHse) =>
+    transmittalByRef.get(record.dgt_linkedtransmittalref ?? '')?.dgt_status ?? null
+
+  // Raised against a drawing whose transmittal is missing or not yet approved
+  const isUnapprovedLink = (record: QaqcHse) =>
+    !!record.dgt_linkedtransmittalref && engineeringCodes.meaningOf(linkedStatus(record)) !== 'approved'
+
   const filteredAndSortedData = useMemo(() => {
     let result = data
 
@@ -206,6 +267,16 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
     if (filters.dgt_status) {
       result = result.filter((item) => item.dgt_status === filters.dgt_status)
     }
+    if (filters.status_meaning) {
+      result = result.filter((item) => statusCodes.meaningOf(item.dgt_status) === filters.status_meaning)
+    }
+    if (filters.transmittal_link === 'linked') {
+      result = result.filter((item) => !!item.dgt_linkedtransmittalref)
+    } else if (filters.transmittal_link === 'unlinked') {
+      result = result.filter((item) => !item.dgt_linkedtransmittalref)
+    } else if (filters.transmittal_link === 'unapproved') {
+      result = result.filter(isUnapprovedLink)
+    }
     if (filters.week_num) {
       result = result.filter((item) => item.week_num?.toString() === filters.week_num)
     }
@@ -235,7 +306,18 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
     }
 
     return result
-  }, [data, searchTerm, filters, sortField, sortDirection])
+  }, [data, searchTerm, filters, sortField, sortDirection, statusCodes.meaningOf, transmittalByRef, engineeringCodes.meaningOf])
+
+  // QAQC has no planned response date, so late/overdue use the panel's target review period
+  const kpiItems = useMemo<TurnaroundItem[]>(() => filteredAndSortedData.map(r => ({
+    discipline: r.dgt_discipline,
+    type: r.dgt_documenttype,
+    week: r.week_num != null ? String(r.week_num) : null,
+    submitted: r.dgt_submissiondate,
+    returned: r.dgt_responsedate,
+    due: null,
+    rejected: statusCodes.meaningOf(r.dgt_status) === 'rejected',
+  })), [filteredAndSortedData, statusCodes.meaningOf])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -316,14 +398,24 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
       dgt_status: formData.dgt_status || null,
     }
 
-    const { error } = await supabase.from('dbp6_000402_qaqc_hse_current').insert(insertData as never)
+    // A record created as rejected goes through the rejection workflow first and is saved when that is confirmed
+    if (statusCodes.meaningOf(insertData.dgt_status) === 'rejected' && insertData.dgt_status) {
+      setIsModalOpen(false)
+      setRejecting({ record: { ...insertData, dgt_dbp6bd0402qaqchseid: '' } as QaqcHse, status: insertData.dgt_status, isNew: true })
+      setSaving(false)
+      return
+    }
+
+    const { error } = await supabase
+      .from('dbp6_000402_qaqc_hse_current')
+      .insert(insertData as never)
 
     if (error) {
       showError('Failed to create record: ' + error.message)
     } else {
-      showSuccess('Record created successfully')
       setIsModalOpen(false)
       fetchData()
+      showSuccess('Record created successfully')
     }
 
     setSaving(false)
@@ -344,10 +436,24 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
   }
 
   const saveInlineEdit = async (recordId: string, field: EditableField) => {
+    // Moving to a rejected code goes through the rejection workflow instead of a plain update
+    if (field === 'dgt_status' && statusCodes.meaningOf(cellValue) === 'rejected') {
+      const record = data.find(item => item.dgt_dbp6bd0402qaqchseid === recordId)
+      if (record && record.dgt_status !== cellValue) {
+        setRejecting({ record, status: cellValue })
+        cancelEditing()
+        return
+      }
+    }
     const isNumeric = field === 'mod_id'
     const updateValue = isNumeric
       ? (cellValue !== '' ? parseInt(cellValue) : null)
       : (cellValue || null)
+    if (field === 'dgt_linkedtransmittalref' && updateValue && !transmittalByRef.has(updateValue as string)) {
+      showError(`Transmittal ${updateValue} is not in the engineering register for this project`)
+      cancelEditing()
+      return
+    }
     const updatePayload: Record<string, string | number | null> = { [field]: updateValue }
 
     const { error } = await supabase
@@ -379,6 +485,131 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
     }
   }
 
+  // _history is keyed on (docref, revision); a record without a revision must match NULL, not revision 0
+  const historyFor = (revision: QaqcHse) => ({
+    select: () => {
+      const q = supabase.from('dbp6_000402_qaqc_hse_history').select('*').eq('dgt_docref', revision.dgt_docref ?? '')
+      return revision.dgt_revision == null ? q.is('dgt_revision', null) : q.eq('dgt_revision', revision.dgt_revision)
+    },
+    delete: () => {
+      const q = supabase.from('dbp6_000402_qaqc_hse_history').delete().eq('dgt_docref', revision.dgt_docref ?? '')
+      return revision.dgt_revision == null ? q.is('dgt_revision', null) : q.eq('dgt_revision', revision.dgt_revision)
+    },
+  })
+
+  // Writes one revision to _history and returns a compensation that puts back whatever row it replaced
+  const syncHistoryRevision = async (revision: QaqcHse) => {
+    const { data: prior, error: readErr } = await historyFor(revision).select().maybeSingle()
+    if (readErr) return { error: readErr.message, undo: null }
+    const { error } = await supabase
+      .from('dbp6_000402_qaqc_hse_history')
+      .upsert(historyRow(revision) as never, { onConflict: 'dgt_docref,dgt_revision' })
+    const undo = async () => {
+      const { error: undoErr } = prior
+        ? await supabase.from('dbp6_000402_qaqc_hse_history').upsert(prior as never, { onConflict: 'dgt_docref,dgt_revision' })
+        : await historyFor(revision).delete()
+      return undoErr?.message ?? null
+    }
+    return { error: error?.message ?? null, undo }
+  }
+
+  const updateCurrentRevision = (id: string, revision: QaqcHse) =>
+    supabase
+      .from('dbp6_000402_qaqc_hse_current')
+      .update({
+        dgt_revision: revision.dgt_revision,
+        dgt_status: revision.dgt_status,
+        dgt_submissiondate: revision.dgt_submissiondate,
+        dgt_responsedate: revision.dgt_responsedate,
+        dgt_date_issued_to_contractor: revision.dgt_date_issued_to_contractor,
+        dgt_rejectionreason: revision.dgt_rejectionreason,
+      } as never)
+      .eq('dgt_dbp6bd0402qaqchseid', id)
+
+  // The rejected revision is kept in _history with its reason; a resubmission becomes the next revision in _current.
+  // Each step registers its compensation, and a failed step runs them in reverse so _history and _current never disagree.
+  const handleReject = async ({ reason, responseDate, resubmission }: RejectionValues) => {
+    if (!rejecting) return
+    const { record, status, isNew } = rejecting
+    setRejectSaving(true)
+    const undos: (() => Promise<string | null>)[] = []
+    const fail = async (message: string) => {
+      const undoErrors: string[] = []
+      for (const undo of undos.reverse()) {
+        const undoErr = await undo()
+        if (undoErr) undoErrors.push(undoErr)
+      }
+      showError(undoErrors.length === 0
+        ? `Rejection rolled back, ${message}`
+        : `${message}. The rollback also failed (${undoErrors.join('; ')}); check ${record.dgt_docref ?? 'the record'} and its history.`)
+      setRejectSaving(false)
+    }
+
+    const rejected: QaqcHse = { ...record, dgt_status: status, dgt_responsedate: responseDate, dgt_rejectionreason: reason }
+    const rejectedSync = await syncHistoryRevision(rejected)
+    if (rejectedSync.undo) undos.push(rejectedSync.undo)
+    if (rejectedSync.error) return fail('history sync failed: ' + rejectedSync.error)
+
+    const next: QaqcHse = resubmission
+      ? {
+          ...rejected,
+          dgt_revision: (record.dgt_revision ?? 0) + 1,
+          dgt_status: resubmission.status,
+          dgt_submissiondate: resubmission.submissionDate,
+          dgt_responsedate: null,
+          dgt_date_issued_to_contractor: null,
+          dgt_rejectionreason: null,
+        }
+      : rejected
+
+    if (isNew) {
+      const { data: created, error: insertErr } = await supabase
+        .from('dbp6_000402_qaqc_hse_current')
+        .insert(historyRow(next) as never)
+        .select('dgt_dbp6bd0402qaqchseid')
+        .single()
+      if (insertErr) return fail('the record could not be created: ' + insertErr.message)
+      const createdId = (created as Pick<QaqcHse, 'dgt_dbp6bd0402qaqchseid'>).dgt_dbp6bd0402qaqchseid
+      undos.push(async () => {
+        const { error } = await supabase.from('dbp6_000402_qaqc_hse_current').delete().eq('dgt_dbp6bd0402qaqchseid', createdId)
+        return error?.message ?? null
+      })
+    } else {
+      const { error: updateErr } = await updateCurrentRevision(record.dgt_dbp6bd0402qaqchseid, next)
+      if (updateErr) return fail('current record failed to update: ' + updateErr.message)
+      undos.push(async () => {
+        const { error } = await updateCurrentRevision(record.dgt_dbp6bd0402qaqchseid, record)
+        return error?.message ?? null
+      })
+    }
+
+    if (resubmission) {
+      const nextSync = await syncHistoryRevision(next)
+      if (nextSync.undo) undos.push(nextSync.undo)
+      if (nextSync.error) return fail('history sync of the resubmission failed: ' + nextSync.error)
+      showSuccess(`Rev ${record.dgt_revision ?? '-'} rejected, rev ${next.dgt_revision} opened`)
+    } else {
+      showSuccess('Rejection recorded')
+    }
+    if (isNew) {
+      reset()
+      fetchData()
+    } else {
+      setData(prev => prev.map(item => (item.dgt_dbp6bd0402qaqchseid === record.dgt_dbp6bd0402qaqchseid ? next : item)))
+    }
+    setRejectSaving(false)
+    setRejecting(null)
+  }
+
+  // Cancelling the rejection of a record from the create modal saves nothing; the modal reopens with its values
+  const handleCancelReject = () => {
+    if (rejecting?.isNew) {
+      showError('Rejection cancelled, the record was not saved')
+      setIsModalOpen(true)
+    }
+    setRejecting(null)
+  }
+
   const handleDelete = async (recordId: string) => {
     setDeleting(true)
     const { error } = await supabase
@@ -423,6 +654,8 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
       'dgt_submissiondate',
       'dgt_responsedate',
       'dgt_date_issued_to_contractor',
+      'dgt_rejectionreason',
+      'dgt_linkedtransmittalref',
       'week_num',
       'dgt_projectid',
     ]
@@ -436,6 +669,8 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
       r.dgt_submissiondate,
       r.dgt_responsedate,
       r.dgt_date_issued_to_contractor,
+      r.dgt_rejectionreason,
+      r.dgt_linkedtransmittalref,
       r.week_num,
       r.dgt_dbp6bd00projectdataid,
     ])
@@ -452,10 +687,22 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
     }
     const nullIfEmpty = (v: string | undefined): string | null => (!v || v.trim() === '' ? null : v.trim())
 
-    // Parse and filter rows with a docref
-    const parsed = rows
-      .filter(r => r.dgt_docref && r.dgt_docref.trim() !== '')
-      .map(r => ({
+    // Fetch existing records so the preview can diff them by docref
+    const { data: existing, error: fetchErr } = await schemaClient(schemaName)
+      .from('dbp6_000402_qaqc_hse_current')
+      .select('*')
+      .eq('dgt_dbp6bd00projectdataid', projectId)
+    if (fetchErr) { showError('Import failed: ' + fetchErr.message); return }
+
+    const plan = planImport<QaqcImportRow>(rows, {
+      refField: 'dgt_docref',
+      revisionField: 'dgt_revision',
+      dateFields: ['dgt_submissiondate', 'dgt_responsedate', 'dgt_date_issued_to_contractor'],
+      compareFields: [
+        'dgt_discipline', 'dgt_documentsubject', 'dgt_documenttype', 'dgt_revision', 'dgt_status',
+        'dgt_submissiondate', 'dgt_responsedate', 'dgt_date_issued_to_contractor', 'dgt_rejectionreason', 'dgt_linkedtransmittalref', 'week_num',
+      ],
+      parse: r => ({
         dgt_dbp6bd00projectdataid: projectId,
         dgt_discipline: nullIfEmpty(r.dgt_discipline),
         dgt_docref: r.dgt_docref.trim(),
@@ -466,48 +713,37 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
         dgt_submissiondate: parseDate(r.dgt_submissiondate),
         dgt_responsedate: parseDate(r.dgt_responsedate),
         dgt_date_issued_to_contractor: parseDate(r.dgt_date_issued_to_contractor),
+        dgt_rejectionreason: nullIfEmpty(r.dgt_rejectionreason),
+        dgt_linkedtransmittalref: nullIfEmpty(r.dgt_linkedtransmittalref),
         week_num: r.week_num && r.week_num.trim() !== '' ? parseInt(r.week_num.trim()) : null,
         mod_id: 1,
-      }))
-
-    if (parsed.length === 0) { showError('No valid rows to import'); return }
-
-    // Deduplicate: keep highest dgt_revision per dgt_docref
-    const dedupMap = new Map<string, typeof parsed[number]>()
-    for (const row of parsed) {
-      const existing = dedupMap.get(row.dgt_docref)
-      if (!existing || (row.dgt_revision ?? -Infinity) > (existing.dgt_revision ?? -Infinity)) {
-        dedupMap.set(row.dgt_docref, row)
-      }
-    }
-    const deduped = Array.from(dedupMap.values())
-
-    // Fetch existing docrefs to distinguish updates vs inserts
-    const db = schemaClient(schemaName)
-    const { data: existing, error: fetchErr } = await db
-      .from('dbp6_000402_qaqc_hse_current')
-      .select('dgt_docref')
-      .eq('dgt_dbp6bd00projectdataid', projectId)
-    if (fetchErr) { showError('Import failed: ' + fetchErr.message); return }
-
-    const existingRefs = new Set((existing || []).map((r: { dgt_docref: string | null }) => r.dgt_docref))
-    const toUpdate = deduped.filter(r => existingRefs.has(r.dgt_docref))
-    const toInsert = deduped.filter(r => !existingRefs.has(r.dgt_docref))
+      }),
+      existing: (existing || []) as QaqcHse[],
+    })
 
-    // Upsert into _current on conflict dgt_docref
-    const { error: upsertErr } = await db
-      .from('dbp6_000402_qaqc_hse_current')
-      .upsert(deduped as never[], { onConflict: 'dgt_docref' })
-    if (upsertErr) { showError('Import failed: ' + upsertErr.message); return }
+    if (plan.rows.length === 0) { showError('No valid rows to import'); return }
+    setImportPlan(plan)
+  }
 
-    // Sync to _history on conflict (dgt_docref, dgt_revision)
-    const historyRows = deduped.map(r => ({ ...r }))
-    const { error: histErr } = await db
-      .from('dbp6_000402_qaqc_hse_history')
-      .upsert(historyRows as never[], { onConflict: 'dgt_docref,dgt_revision' })
-    if (histErr) { showError(`Current updated but history sync failed: ${histErr.message}`); fetchData(); return }
+  const applyImport = async (rows: QaqcImportRow[]) => {
+    if (!importPlan) return
+    setImporting(true)
+    const refs = new Set(rows.map(r => r.dgt_docref))
+    const inserted = importPlan.rows.filter(r => refs.has(r.ref) && r.kind === 'insert').length
+    const error = await applyRegisterImport({
+      schemaName,
+      projectId,
+      currentTable: 'dbp6_000402_qaqc_hse_current',
+      historyTable: 'dbp6_000402_qaqc_hse_history',
+      refField: 'dgt_docref',
+      revisionField: 'dgt_revision',
+      rows,
+    })
+    setImporting(false)
+    setImportPlan(null)
+    if (error) { showError(error); fetchData(); return }
 
-    showSuccess(`${toUpdate.length} updated, ${toInsert.length} inserted`)
+    showSuccess(`${rows.length - inserted} updated, ${inserted} inserted`)
     fetchData()
   }
 
@@ -535,6 +771,26 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
               placeholder="Search by Doc ID, Ref, Subject..."
             />
           </div>
+          <select
+            value={filters.status_meaning}
+            onChange={e => updateFilter('status_meaning', e.target.value)}
+            className="h-9 px-2 text-sm border border-gray-300 rounded-md bg-white text-gray-700 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+            title="Filter by what the status code means"
+          >
+            <option value="">All outcomes</option>
+            {STATUS_MEANINGS.map(m => <option key={m} value={m}>{STATUS_MEANING_LABELS[m]}</option>)}
+          </select>
+          <select
+            value={filters.transmittal_link}
+            onChange={e => updateFilter('transmittal_link', e.target.value)}
+            className="h-9 px-2 text-sm border border-gray-300 rounded-md bg-white text-gray-700 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400"
+            title="Filter by linked engineering transmittal"
+          >
+            <option value="">All transmittal links</option>
+            <option value="linked">Linked to a transmittal</option>
+            <option value="unlinked">Not linked</option>
+            <option value="unapproved">Drawing not approved</option>
+          </select>
           {(Object.values(filters).some(v => v !== '') || sortField !== null) && (
             <button
               onClick={() => {
@@ -547,6 +803,8 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
                   dgt_responsedate: '',
                   dgt_date_issued_to_contractor: '',
                   dgt_status: '',
+                  status_meaning: '',
+                  transmittal_link: '',
                   week_num: '',
                   mod_id: '',
                 })
@@ -585,6 +843,26 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
             </svg>
             Type Legend
           </button>
+          <button
+            onClick={() => setShowKpis(!showKpis)}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md transition-colors whitespace-nowrap shadow-sm ${showKpis ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+            title="Show review turnaround KPIs"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            KPIs
+          </button>
+          <button
+            onClick={() => setShowAgeing(!showAgeing)}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-md transition-colors whitespace-nowrap shadow-sm ${showAgeing ? 'text-blue-700 bg-blue-50 border-blue-300' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'}`}
+            title="Show ageing of open documents"
+          >
+            <svg className="w-4 h-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            Ageing
+          </button>
         </div>
         <div className="flex items-center gap-2">
           <CsvControls onExport={handleExport} onImport={handleImport} />
@@ -677,6 +955,31 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
         </div>
       )}
 
+      {showKpis && !loading && (
+        <TurnaroundKpiPanel
+          items={kpiItems}
+          disciplineLabel={getDisciplineName}
+          typeLabel={getDocTypeName}
+          typeHeading="Document type"
+          weekHeading="Week"
+        />
+      )}
+
+      {showAgeing && !loading && (
+        <QaqcAgeingReport
+          rows={filteredAndSortedData}
+          meaningOf={statusCodes.meaningOf}
+          disciplineLabel={getDisciplineName}
+          typeLabel={getDocTypeName}
+        />
+      )}
+
+      <datalist id="qaqc-transmittal-refs">
+        {transmittals.map(t => (
+          <option key={t.dgt_transmittalref} value={t.dgt_transmittalref ?? ''}>{t.dgt_transmittalsubject}</option>
+        ))}
+      </datalist>
+
       {loading ? (
         <LoadingSpinner />
       ) : (
@@ -801,6 +1104,9 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
                       <ColumnFilter data={data} field="dgt_status" value={filters.dgt_status} onChange={(v) => updateFilter('dgt_status', v)} label="Status" />
                     </div>
                   </th>
+                  <th className="px-3 py-2 text-left align-top w-36 text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">
+                    Transmittal
+                  </th>
                   <th className="px-3 py-2 text-left align-top w-20">
                     <div
                       className="flex items-center gap-1 text-xs font-medium text-gray-600 uppercase tracking-wide cursor-pointer hover:text-gray-800 whitespace-nowrap"
@@ -827,7 +1133,7 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
               <tbody className="bg-white divide-y divide-gray-200">
                 {paginatedData.length === 0 ? (
                   <tr>
-                    <td colSpan={12} className="px-6 py-8 text-center text-gray-500">
+                    <td colSpan={13} className="px-6 py-8 text-center text-gray-500">
                       No records found
                     </td>
                   </tr>
@@ -870,27 +1176,48 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
                             autoFocus
                           >
                             <option value="">-</option>
-                            <option value="OPN">OPN</option>
-                            <option value="CLS">CLS</option>
-                            <option value="REJ">REJ</option>
+                            {statusCodes.codes.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
                           </select>
                         ) : (
                           <span
                             onClick={() => startEditing(record.dgt_dbp6bd0402qaqchseid, 'dgt_status', record.dgt_status)}
-                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full cursor-pointer hover:opacity-80 ${
-                              record.dgt_status === 'OPN'
-                                ? 'bg-blue-100 text-blue-800'
-                                : record.dgt_status === 'CLS'
-                                ? 'bg-green-100 text-green-800'
-                                : record.dgt_status === 'REJ'
-                                ? 'bg-red-100 text-red-800'
-                                : 'bg-gray-100 text-gray-800'
-                            }`}
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full cursor-pointer hover:opacity-80 ${statusCodes.badgeClass(record.dgt_status)}`}
                           >
                             {record.dgt_status || '-'}
                           </span>
                         )}
                       </td>
+                      {/* Linked transmittal - Editable */}
+                      <td className="px-3 py-2.5 whitespace-nowrap text-sm">
+                        {editingCell?.recordId === record.dgt_dbp6bd0402qaqchseid && editingCell?.field === 'dgt_linkedtransmittalref' ? (
+                          <input
+                            list="qaqc-transmittal-refs"
+                            value={cellValue}
+                            onChange={(e) => setCellValue(e.target.value)}
+                            onBlur={() => saveInlineEdit(record.dgt_dbp6bd0402qaqchseid, 'dgt_linkedtransmittalref')}
+                            onKeyDown={(e) => handleKeyDown(e, record.dgt_dbp6bd0402qaqchseid, 'dgt_linkedtransmittalref')}
+                            placeholder="Transmittal ref"
+                            className="w-36 px-1 py-1 text-xs border border-blue-500 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            autoFocus
+                          />
+                        ) : (
+                          <div
+                            onClick={() => startEditing(record.dgt_dbp6bd0402qaqchseid, 'dgt_linkedtransmittalref', record.dgt_linkedtransmittalref)}
+                            className="cursor-pointer hover:text-blue-600"
+                            title={transmittalByRef.get(record.dgt_linkedtransmittalref ?? '')?.dgt_transmittalsubject ?? undefined}
+                          >
+                            {record.dgt_linkedtransmittalref ? (
+                              <>
+                                <span className="font-mono text-xs text-gray-900">{record.dgt_linkedtransmittalref}</span>
+                                {linkedStatus(record) && (
+                                  <span className={`ml-1.5 inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${engineeringCodes.badgeClass(linkedStatus(record))}`}>{linkedStatus(record)}</span>
+                                )}
+                                {isUnapprovedLink(record) && <div className="text-xs text-red-600">Drawing not approved</div>}
+                              </>
+                            ) : <span className="text-gray-400">Link</span>}
+                          </div>
+                        )}
+                      </td>
                       {/* Week Num */}
                       <td className="px-3 py-2.5 whitespace-nowrap text-sm text-gray-500">
                         {record.week_num ?? '-'}
@@ -918,15 +1245,31 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
                       </td>
                       {/* Actions */}
                       <td className="px-3 py-2.5 whitespace-nowrap">
-                        <button
-                          onClick={() => setDeleteConfirm(record.dgt_dbp6bd0402qaqchseid)}
-                          className="p-1 text-red-500 rounded"
-                          title="Delete record"
-                        >
-                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        <div className="flex items-center gap-1">
+                          {record.dgt_docref && (
+                            <button onClick={() => setChainRef(record.dgt_docref)} className="p-1 text-gray-500 rounded" title="Submission chain">
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                              </svg>
+                            </button>
+                          )}
+                          {statusCodes.meaningOf(record.dgt_status) === 'rejected' && (
+                            <button onClick={() => setRejecting({ record, status: record.dgt_status ?? '' })} className="p-1 text-amber-600 rounded" title="Record resubmission">
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                              </svg>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setDeleteConfirm(record.dgt_dbp6bd0402qaqchseid)}
+                            className="p-1 text-red-500 rounded"
+                            title="Delete record"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))
@@ -1019,9 +1362,9 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="">Select status...</option>
-              <option value="OPN">OPN - Open</option>
-              <option value="CLS">CLS - Closed</option>
-              <option value="REJ">REJ - Rejected</option>
+              {statusCodes.codes.map(c => (
+                <option key={c.code} value={c.code}>{c.label ? `${c.code} - ${c.label}` : c.code}</option>
+              ))}
             </select>
             {errors.dgt_status?.message && (
               <p className="mt-1 text-sm text-red-600">{errors.dgt_status.message}</p>
@@ -1057,6 +1400,30 @@ export function QaqcHseForm({ projectId, schemaName }: { projectId: string; sche
         </form>
       </Modal>
 
+      <QaqcRejectionModal
+        record={rejecting?.record ?? null}
+        rejectCode={rejecting?.status ?? null}
+        openCodes={statusCodes.codes.filter(c => c.meaning === 'open')}
+        saving={rejectSaving}
+        onConfirm={handleReject}
+        onClose={handleCancelReject}
+      />
+
+      <ImportPreviewModal
+        plan={importPlan}
+        title="QAQC / HSE"
+        saving={importing}
+        onConfirm={applyImport}
+        onCancel={() => setImportPlan(null)}
+      />
+
+      <QaqcRevisionChainDrawer
+        docRef={chainRef}
+        projectId={projectId}
+        schemaName={schemaName}
+        onClose={() => setChainRef(null)}
+      />
+
       <ConfirmDialog
         isOpen={!!deleteConfirm}
         title="Delete Record"
@@ -6,6 +6,8 @@ import { ConfirmDialog } from '@/components/ConfirmDialog'
 import { SearchFilter } from '@/components/SearchFilter'
 import { TradesForm } from '@/forms/TradesForm'
 import { SubtradesForm } from '@/forms/SubtradesForm'
+import type { Discipline, ResourceCatalogueEntry, StatusCode, StatusMeaning, StatusRegister, Type } from '@/types/database'
+import { DEFAULT_STATUS_CODES, STATUS_MEANINGS, STATUS_MEANING_LABELS, STATUS_REGISTER_LABELS, statusClass } from '@/utils/statusCodes'
 
 interface RefTableConfig {
   title: string
@@ -479,6 +481,531 @@ function ReferenceCard({ config, schemaName, onNotify }: ReferenceCardProps) {
   )
 }
 
+const STATUS_REGISTERS: StatusRegister[] = ['engineering', 'qaqc']
+
+const addInputCls = 'w-full px-2 py-1 text-xs border border-blue-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500'
+const editInputCls = 'w-full px-2 py-1 text-xs border border-amber-300 rounded focus:outline-none focus:ring-1 focus:ring-amber-400'
+
+interface StatusDraft {
+  code: string
+  label: string
+  meaning: StatusMeaning
+  sort_order: string
+}
+
+const EMPTY_STATUS_DRAFT: StatusDraft = { code: '', label: '', meaning: 'open', sort_order: '' }
+
+/** Status-code vocabulary per register (dbp6_status_code); each code carries a meaning the registers use */
+function StatusCodesCard({ schemaName, onNotify }: { schemaName: string; onNotify: ReferenceCardProps['onNotify'] }) {
+  const supabase = schemaClient(schemaName)
+  const [register, setRegister] = useState<StatusRegister>('engineering')
+  const [rows, setRows] = useState<StatusCode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [addingRow, setAddingRow] = useState(false)
+  const [draft, setDraft] = useState<StatusDraft>(EMPTY_STATUS_DRAFT)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const fetchRows = async () => {
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('dbp6_status_code')
+      .select('*')
+      .eq('register', register)
+      .order('sort_order', { ascending: true })
+      .order('code', { ascending: true })
+    if (error) onNotify('error', `Failed to load status codes: ${error.message}`)
+    else setRows((data as StatusCode[]) || [])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    setAddingRow(false)
+    setEditingId(null)
+    fetchRows()
+  }, [register])
+
+  const toPayload = () => ({
+    register,
+    code: draft.code.trim().toUpperCase(),
+    label: draft.label.trim() || null,
+    meaning: draft.meaning,
+    sort_order: draft.sort_order === '' ? null : parseInt(draft.sort_order),
+  })
+
+  const handleAdd = async () => {
+    if (!draft.code.trim()) return
+    setSaving(true)
+    const { error } = await supabase.from('dbp6_status_code').insert(toPayload() as never)
+    if (error) {
+      onNotify('error', `Failed to add: ${error.message}`)
+    } else {
+      onNotify('success', 'Status code added')
+      setAddingRow(false)
+      fetchRows()
+    }
+    setSaving(false)
+  }
+
+  // Seeds the register with the built-in codes so they can be edited
+  const handleLoadDefaults = async () => {
+    setSaving(true)
+    const payload = DEFAULT_STATUS_CODES[register].map((c, i) => ({ ...c, register, sort_order: i + 1 }))
+    const { error } = await supabase.from('dbp6_status_code').insert(payload as never)
+    if (error) onNotify('error', `Failed to load defaults: ${error.message}`)
+    else { onNotify('success', 'Default status codes added'); fetchRows() }
+    setSaving(false)
+  }
+
+  const startEdit = (row: StatusCode) => {
+    setEditingId(row.id)
+    setDraft({ code: row.code, label: row.label ?? '', meaning: row.meaning, sort_order: row.sort_order != null ? String(row.sort_order) : '' })
+  }
+
+  const handleSaveEdit = async () => {
+    if (!draft.code.trim() || editingId === null) return
+    setSaving(true)
+    const { error } = await supabase
+      .from('dbp6_status_code')
+      .update(toPayload() as never)
+      .eq('id', editingId)
+    if (error) onNotify('error', `Failed to update: ${error.message}`)
+    else { onNotify('success', 'Status code updated'); setEditingId(null); fetchRows() }
+    setSaving(false)
+  }
+
+  const handleDelete = async () => {
+    if (deleteConfirm === null) return
+    setDeleting(true)
+    const { error } = await supabase
+      .from('dbp6_status_code')
+      .delete()
+      .eq('id', deleteConfirm)
+    if (error) {
+      onNotify('error', `Failed to delete: ${error.message}`)
+    } else {
+      setRows(prev => prev.filter(r => r.id !== deleteConfirm))
+      onNotify('success', 'Status code deleted')
+    }
+    setDeleting(false)
+    setDeleteConfirm(null)
+  }
+
+  const draftCells = (inputCls: string, onSave: () => void, onCancel: () => void) => {
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter') onSave()
+      if (e.key === 'Escape') onCancel()
+    }
+    return (
+      <>
+        <td className="px-2 py-1.5">
+          <input autoFocus type="text" value={draft.code} onChange={e => setDraft(d => ({ ...d, code: e.target.value }))} onKeyDown={handleKeyDown} placeholder="Code" className={inputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <input type="text" value={draft.label} onChange={e => setDraft(d => ({ ...d, label: e.target.value }))} onKeyDown={handleKeyDown} placeholder="Label" className={inputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <select value={draft.meaning} onChange={e => setDraft(d => ({ ...d, meaning: e.target.value as StatusMeaning }))} className={inputCls}>
+            {STATUS_MEANINGS.map(m => <option key={m} value={m}>{STATUS_MEANING_LABELS[m]}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-1.5">
+          <input type="number" value={draft.sort_order} onChange={e => setDraft(d => ({ ...d, sort_order: e.target.value }))} onKeyDown={handleKeyDown} className={inputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <div className="flex items-center gap-0.5">
+            <button onClick={onSave} disabled={saving || !draft.code.trim()} title="Save" className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-40 transition-colors">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </button>
+            <button onClick={onCancel} title="Cancel" className="p-1 text-gray-400 hover:bg-gray-100 rounded transition-colors">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </td>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow flex flex-col">
+        {/* Card header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-900">Status Codes</h3>
+          <button
+            onClick={() => { setEditingId(null); setAddingRow(true); setDraft(EMPTY_STATUS_DRAFT) }}
+            title="Add status code"
+            className="p-1 rounded-md text-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Register tabs */}
+        <div className="px-3 py-2 border-b border-gray-100">
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {STATUS_REGISTERS.map(r => (
+              <button
+                key={r}
+                onClick={() => setRegister(r)}
+                className={`h-8 px-3 text-xs font-medium ${register === r ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {STATUS_REGISTER_LABELS[r]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className="overflow-auto max-h-64">
+          {loading ? (
+            <div className="p-6 text-xs text-gray-400 text-center">Loading…</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide w-20">Code</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Label</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide w-28">Meaning</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide w-16">Order</th>
+                  <th className="px-3 py-2 w-16"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {addingRow && (
+                  <tr className="bg-blue-50">{draftCells(addInputCls, handleAdd, () => setAddingRow(false))}</tr>
+                )}
+
+                {rows.length === 0 && !addingRow && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-xs text-gray-400">
+                      <p>No codes configured — the built-in {STATUS_REGISTER_LABELS[register]} codes are in use.</p>
+                      <button onClick={handleLoadDefaults} disabled={saving} className="mt-2 text-blue-600 hover:underline disabled:opacity-40">
+                        Load defaults to edit
+                      </button>
+                    </td>
+                  </tr>
+                )}
+
+                {rows.map(row => (
+                  <tr key={row.id} className={editingId === row.id ? 'bg-amber-50' : 'hover:bg-gray-50'}>
+                    {editingId === row.id ? draftCells(editInputCls, handleSaveEdit, () => setEditingId(null)) : (
+                      <>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-700 whitespace-nowrap">{row.code}</td>
+                        <td className="px-3 py-2 text-xs text-gray-900">{row.label || '-'}</td>
+                        <td className="px-3 py-2">
+                          <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${statusClass(row.meaning)}`}>{STATUS_MEANING_LABELS[row.meaning]}</span>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-600">{row.sort_order ?? '-'}</td>
+                        <td className="px-2 py-2">
+                          <div className="flex items-center gap-0.5">
+                            <button onClick={() => { setAddingRow(false); startEdit(row) }} title="Edit" className="p-1 text-blue-500 rounded">
+                              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                            <button onClick={() => setDeleteConfirm(row.id)} title="Delete" className="p-1 text-red-500 rounded">
+                              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </button>
+                          </div>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer row count */}
+        <div className="px-4 py-2 border-t border-gray-100 bg-gray-50 rounded-b-lg">
+          <span className="text-xs text-gray-400">{`${rows.length} code${rows.length !== 1 ? 's' : ''}`}</span>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={deleteConfirm !== null}
+        title="Delete Status Code"
+        message="Records already using this code will show it without a meaning. Delete it?"
+        confirmLabel="Delete"
+        loading={deleting}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteConfirm(null)}
+      />
+    </>
+  )
+}
+
+interface CatalogueDraft {
+  resource_code: string
+  resource_name: string
+  dgt_resourcediscipline: string
+  dgt_resourcetype: string
+}
+
+const EMPTY_CATALOGUE_DRAFT: CatalogueDraft = { resource_code: '', resource_name: '', dgt_resourcediscipline: '', dgt_resourcetype: '' }
+
+/** Resource catalogue (dbp6_resource_catalogue): the names Actual Resources rows are picked from */
+function ResourceCatalogueCard({ schemaName, onNotify }: { schemaName: string; onNotify: ReferenceCardProps['onNotify'] }) {
+  const supabase = schemaClient(schemaName)
+  const [rows, setRows] = useState<ResourceCatalogueEntry[]>([])
+  const [disciplines, setDisciplines] = useState<Discipline[]>([])
+  const [types, setTypes] = useState<Type[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [addingRow, setAddingRow] = useState(false)
+  const [draft, setDraft] = useState<CatalogueDraft>(EMPTY_CATALOGUE_DRAFT)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const fetchRows = async () => {
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('dbp6_resource_catalogue')
+      .select('*')
+      .order('resource_code', { ascending: true })
+    if (error) onNotify('error', `Failed to load resource catalogue: ${error.message}`)
+    else setRows((data as ResourceCatalogueEntry[]) || [])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchRows()
+    supabase.from('dbp6_0018_discipline').select('*').order('discipline_code', { ascending: true })
+      .then(({ data }) => setDisciplines((data as Discipline[]) || []))
+    supabase.from('dbp6_0019_type').select('*').order('type_code', { ascending: true })
+      .then(({ data }) => setTypes((data as Type[]) || []))
+  }, [])
+
+  const displayRows = useMemo(() => {
+    if (!searchTerm) return rows
+    const term = searchTerm.toLowerCase()
+    return rows.filter(r => r.resource_code.toLowerCase().includes(term) || r.resource_name.toLowerCase().includes(term))
+  }, [rows, searchTerm])
+
+  const disciplineName = (code: number | null) => (code == null ? '-' : disciplines.find(d => d.discipline_code === code)?.discipline_name || String(code))
+  const typeName = (code: number | null) => (code == null ? '-' : types.find(t => t.type_code === code)?.type_name || String(code))
+
+  const isValid = draft.resource_code.trim() !== '' && draft.resource_name.trim() !== ''
+
+  const toPayload = () => ({
+    resource_code: draft.resource_code.trim().toUpperCase(),
+    resource_name: draft.resource_name.trim(),
+    dgt_resourcediscipline: draft.dgt_resourcediscipline ? parseInt(draft.dgt_resourcediscipline) : null,
+    dgt_resourcetype: draft.dgt_resourcetype ? parseInt(draft.dgt_resourcetype) : null,
+  })
+
+  const handleAdd = async () => {
+    if (!isValid) return
+    setSaving(true)
+    const { error } = await supabase.from('dbp6_resource_catalogue').insert(toPayload() as never)
+    if (error) {
+      onNotify('error', `Failed to add: ${error.message}`)
+    } else {
+      onNotify('success', 'Resource added')
+      setAddingRow(false)
+      fetchRows()
+    }
+    setSaving(false)
+  }
+
+  const startEdit = (row: ResourceCatalogueEntry) => {
+    setEditingId(row.id)
+    setDraft({
+      resource_code: row.resource_code,
+      resource_name: row.resource_name,
+      dgt_resourcediscipline: row.dgt_resourcediscipline?.toString() ?? '',
+      dgt_resourcetype: row.dgt_resourcetype?.toString() ?? '',
+    })
+  }
+
+  const handleSaveEdit = async () => {
+    if (!isValid || editingId === null) return
+    setSaving(true)
+    const { error } = await supabase
+      .from('dbp6_resource_catalogue')
+      .update(toPayload() as never)
+      .eq('id', editingId)
+    if (error) onNotify('error', `Failed to update: ${error.message}`)
+    else { onNotify('success', 'Resource updated'); setEditingId(null); fetchRows() }
+    setSaving(false)
+  }
+
+  const handleDelete = async () => {
+    if (deleteConfirm === null) return
+    setDeleting(true)
+    const { error } = await supabase
+      .from('dbp6_resource_catalogue')
+      .delete()
+      .eq('id', deleteConfirm)
+    if (error) {
+      onNotify('error', `Failed to delete: ${error.message}`)
+    } else {
+      setRows(prev => prev.filter(r => r.id !== deleteConfirm))
+      onNotify('success', 'Resource deleted')
+    }
+    setDeleting(false)
+    setDeleteConfirm(null)
+  }
+
+  const draftCells = (inputCls: string, onSave: () => void, onCancel: () => void) => {
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter') onSave()
+      if (e.key === 'Escape') onCancel()
+    }
+    return (
+      <>
+        <td className="px-2 py-1.5">
+          <input autoFocus type="text" value={draft.resource_code} onChange={e => setDraft(d => ({ ...d, resource_code: e.target.value }))} onKeyDown={handleKeyDown} placeholder="Code" className={inputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <input type="text" value={draft.resource_name} onChange={e => setDraft(d => ({ ...d, resource_name: e.target.value }))} onKeyDown={handleKeyDown} placeholder="Name" className={inputCls} />
+        </td>
+        <td className="px-2 py-1.5">
+          <select value={draft.dgt_resourcediscipline} onChange={e => setDraft(d => ({ ...d, dgt_resourcediscipline: e.target.value }))} className={inputCls}>
+            <option value="">-</option>
+            {disciplines.map(d => <option key={d.id} value={d.discipline_code ?? ''}>{d.discipline_name}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-1.5">
+          <select value={draft.dgt_resourcetype} onChange={e => setDraft(d => ({ ...d, dgt_resourcetype: e.target.value }))} className={inputCls}>
+            <option value="">-</option>
+            {types.map(t => <option key={t.id} value={t.type_code ?? ''}>{t.type_name}</option>)}
+          </select>
+        </td>
+        <td className="px-2 py-1.5">
+          <div className="flex items-center gap-0.5">
+            <button onClick={onSave} disabled={saving || !isValid} title="Save" className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-40 transition-colors">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </button>
+            <button onClick={onCancel} title="Cancel" className="p-1 text-gray-400 hover:bg-gray-100 rounded transition-colors">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </td>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow flex flex-col">
+        {/* Card header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-900">Resource Catalogue</h3>
+          <button
+            onClick={() => { setEditingId(null); setAddingRow(true); setDraft(EMPTY_CATALOGUE_DRAFT) }}
+            title="Add resource"
+            className="p-1 rounded-md text-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="px-3 py-2 border-b border-gray-100">
+          <SearchFilter value={searchTerm} onChange={setSearchTerm} placeholder="Search resource catalogue…" />
+        </div>
+
+        {/* Table */}
+        <div className="overflow-auto max-h-64">
+          {loading ? (
+            <div className="p-6 text-xs text-gray-400 text-center">Loading…</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide w-24">Code</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide w-28">Discipline</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide w-28">Type</th>
+                  <th className="px-3 py-2 w-16"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {addingRow && (
+                  <tr className="bg-blue-50">{draftCells(addInputCls, handleAdd, () => setAddingRow(false))}</tr>
+                )}
+
+                {displayRows.length === 0 && !addingRow && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-xs text-gray-400">
+                      {searchTerm ? 'No matching resources' : 'No resources yet — Actual Resources names stay free text until some are added.'}
+                    </td>
+                  </tr>
+                )}
+
+                {displayRows.map(row => (
+                  <tr key={row.id} className={editingId === row.id ? 'bg-amber-50' : 'hover:bg-gray-50'}>
+                    {editingId === row.id ? draftCells(editInputCls, handleSaveEdit, () => setEditingId(null)) : (
+                      <>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-700 whitespace-nowrap">{row.resource_code}</td>
+                        <td className="px-3 py-2 text-xs text-gray-900">{row.resource_name}</td>
+                        <td className="px-3 py-2 text-xs text-gray-600">{disciplineName(row.dgt_resourcediscipline)}</td>
+                        <td className="px-3 py-2 text-xs text-gray-600">{typeName(row.dgt_resourcetype)}</td>
+                        <td className="px-2 py-2">
+                          <div className="flex items-center gap-0.5">
+                            <button onClick={() => { setAddingRow(false); startEdit(row) }} title="Edit" className="p-1 text-blue-500 rounded">
+                              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                            <button onClick={() => setDeleteConfirm(row.id)} title="Delete" className="p-1 text-red-500 rounded">
+                              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            </button>
+                          </div>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer row count */}
+        <div className="px-4 py-2 border-t border-gray-100 bg-gray-50 rounded-b-lg">
+          <span className="text-xs text-gray-400">
+            {searchTerm ? `${displayRows.length} of ${rows.length} resources` : `${rows.length} resource${rows.length !== 1 ? 's' : ''}`}
+          </span>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={deleteConfirm !== null}
+        title="Delete Resource"
+        message="Existing Actual Resources rows keep their name and code. Delete this resource from the catalogue?"
+        confirmLabel="Delete"
+        loading={deleting}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteConfirm(null)}
+      />
+    </>
+  )
+}
+
 export function ReferenceDataForm({ schemaName }: { schemaName: string }) {
   const { notification, hideNotification, showSuccess, showError } = useNotification()
 
@@ -496,6 +1023,8 @@ export function ReferenceDataForm({ schemaName }: { schemaName: string }) {
         {REF_TABLES.map(config => (
           <ReferenceCard key={config.table} config={config} schemaName={schemaName} onNotify={handleNotify} />
         ))}
+        <StatusCodesCard schemaName={schemaName} onNotify={handleNotify} />
+        <ResourceCatalogueCard schemaName={schemaName} onNotify={handleNotify} />
       </div>
       <TradesForm />
       <SubtradesForm />
@@ -0,0 +1,229 @@
+import { useState, useEffect, useMemo } from 'react'
+import { supabase, schemaClient } from '@/lib/supabase'
+import type { XerUpload } from '@/types/database'
+import { Pagination } from '@/components/Pagination'
+import { SearchFilter } from '@/components/SearchFilter'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { Notification } from '@/components/Notification'
+import { useNotification } from '@/hooks/useNotification'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { QueueStatusBadge, queueStatusLabel } from '@/components/QueueStatusBadge'
+
+const ITEMS_PER_PAGE = 15
+
+const formatDate = (d: string | null) => {
+  if (!d) return '-'
+  try { return new Date(d).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }) }
+  catch { return d }
+}
+
+const formatDateTime = (d: string | null) => {
+  if (!d) return '-'
+  try { return new Date(d).toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' }) }
+  catch { return d }
+}
+
+const selectCls = 'h-8 px-2 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-400 focus:border-blue-400'
+
+export function XerUploadsForm({ projectTextId, schemaName }: { projectTextId: string; schemaName: string }) {
+  const [data, setData] = useState<XerUpload[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [weekFilter, setWeekFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [currentPage, setCurrentPage] = useState(1)
+  const [reprocessTarget, setReprocessTarget] = useState<XerUpload | null>(null)
+  const [reprocessing, setReprocessing] = useState(false)
+  const [downloadingId, setDownloadingId] = useState<number | null>(null)
+  const { notification, hideNotification, showSuccess, showError } = useNotification()
+
+  // xer_uploads and the xer-uploads bucket live in the public schema (see handleUploadXer)
+  const fetchData = async () => {
+    setLoading(true)
+    let query = supabase
+      .from('xer_uploads')
+      .select('*')
+      .order('week_num', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+    if (projectTextId) query = query.eq('project_code', projectTextId)
+    const { data: records, error } = await query
+    if (error) { showError('Failed to fetch uploads: ' + error.message) }
+    else { setData((records as XerUpload[] | null) || []) }
+    setLoading(false)
+  }
+
+  useEffect(() => { fetchData() }, [projectTextId])
+  useEffect(() => { setCurrentPage(1) }, [searchTerm, weekFilter, statusFilter])
+
+  const weekOptions = useMemo(() =>
+    [...new Set(data.map(r => r.week_num).filter((w): w is number => w != null))].sort((a, b) => b - a)
+  , [data])
+
+  const statusOptions = useMemo(() =>
+    [...new Set(data.map(r => r.onedrive_status).filter(Boolean))].sort() as string[]
+  , [data])
+
+  const filteredData = useMemo(() => {
+    let result = data
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase()
+      result = result.filter(item =>
+        item.file_path?.toLowerCase().includes(term) ||
+        item.p6_project_code?.toLowerCase().includes(term) ||
+        item.uploaded_by?.toLowerCase().includes(term)
+      )
+    }
+    if (weekFilter) result = result.filter(item => String(item.week_num) === weekFilter)
+    if (statusFilter) result = result.filter(item => item.onedrive_status === statusFilter)
+    return result
+  }, [data, searchTerm, weekFilter, statusFilter])
+
+  const handleDownload = async (record: XerUpload) => {
+    setDownloadingId(record.id)
+    const fileName = record.file_path.split('/').pop() || 'schedule.xer'
+    const { data: signed, error } = await supabase.storage
+      .from('xer-uploads')
+      .createSignedUrl(record.file_path, 60, { download: fileName })
+    if (error || !signed) { showError('Failed to get download link: ' + (error?.message ?? 'unknown error')) }
+    else {
+      const a = document.createElement('a')
+      a.href = signed.signedUrl
+      a.download = fileName
+      a.click()
+    }
+    setDownloadingId(null)
+  }
+
+  // Pending sends the file through the OneDrive sync again; the p6_update_queue row re-runs the P6 update
+  // (same insert as Run Update). A failed enqueue puts the previous upload status back.
+  const handleReprocess = async () => {
+    if (!reprocessTarget) return
+    setReprocessing(true)
+    const target = reprocessTarget
+    const { error } = await supabase
+      .from('xer_uploads')
+      .update({ onedrive_status: 'pending' } as never)
+      .eq('id', target.id)
+    if (error) {
+      showError('Failed to queue for re-processing: ' + error.message)
+    } else {
+      const { error: queueErr } = await schemaClient(target.schema_name || schemaName)
+        .from('p6_update_queue')
+        .insert({ project_code: target.project_code, status: 'pending' } as never)
+      if (queueErr) {
+        const { error: restoreErr } = await supabase
+          .from('xer_uploads')
+          .update({ onedrive_status: target.onedrive_status } as never)
+          .eq('id', target.id)
+        if (restoreErr) {
+          setData(prev => prev.map(r => r.id === target.id ? { ...r, onedrive_status: 'pending' } : r))
+          showError(`Failed to queue the P6 update (${queueErr.message}) and the upload could not be set back to ${target.onedrive_status ?? 'its previous status'}: ${restoreErr.message}`)
+        } else {
+          showError('Failed to queue the P6 update: ' + queueErr.message)
+        }
+      } else {
+        setData(prev => prev.map(r => r.id === target.id ? { ...r, onedrive_status: 'pending' } : r))
+        showSuccess('XER queued for re-processing')
+      }
+    }
+    setReprocessing(false)
+    setReprocessTarget(null)
+  }
+
+  const hasActiveFilters = weekFilter || statusFilter
+
+  const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE)
+  const paginatedData = filteredData.slice(
+    (currentPage - 1) * ITEMS_PER_PAGE,
+    currentPage * ITEMS_PER_PAGE
+  )
+
+  return (
+    <div className="space-y-4">
+      {notification && <Notification type={notification.type} message={notification.message} onClose={hideNotification} />}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="w-full sm:w-72">
+          <SearchFilter value={searchTerm} onChange={setSearchTerm} placeholder="Search by file, P6 code, uploader..." />
+        </div>
+
+        <select value={weekFilter} onChange={e => setWeekFilter(e.target.value)} className={selectCls}>
+          <option value="">All Weeks</option>
+          {weekOptions.map(w => <option key={w} value={String(w)}>Week {w}</option>)}
+        </select>
+
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value)} className={selectCls}>
+          <option value="">All Statuses</option>
+          {statusOptions.map(s => <option key={s} value={s}>{queueStatusLabel(s)}</option>)}
+        </select>
+
+        {hasActiveFilters && (
+          <button onClick={() => { setWeekFilter(''); setStatusFilter('') }} className="h-8 px-3 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+            Clear filters
+          </button>
+        )}
+
+        <button onClick={fetchData} className="ml-auto h-8 px-3 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+          Refresh
+        </button>
+      </div>
+
+      {loading ? <LoadingSpinner /> : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b border-gray-200">
+            <span className="text-sm text-gray-600">
+              Showing <span className="font-semibold text-gray-900">{filteredData.length}</span> upload{filteredData.length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Week', 'File', 'P6 Project', 'Data Date', 'Uploaded By', 'Uploaded At', 'Status', 'Actions'].map(label => (
+                    <th key={label} className="px-3 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wide whitespace-nowrap">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {paginatedData.length === 0 ? (
+                  <tr><td colSpan={8} className="px-6 py-8 text-center text-gray-500">No XER uploads found</td></tr>
+                ) : paginatedData.map(record => {
+                  const status = (record.onedrive_status || '').toLowerCase()
+                  return (
+                    <tr key={record.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-2.5 text-sm text-gray-900 whitespace-nowrap">{record.week_num ?? '-'}</td>
+                      <td className="px-3 py-2.5 text-xs font-mono text-gray-700 break-all">{record.file_path}</td>
+                      <td className="px-3 py-2.5 text-sm font-mono text-gray-700 whitespace-nowrap">{record.p6_project_code || '-'}</td>
+                      <td className="px-3 py-2.5 text-xs text-gray-600 whitespace-nowrap">{formatDate(record.data_date)}</td>
+                      <td className="px-3 py-2.5 text-sm text-gray-700 whitespace-nowrap">{record.uploaded_by || '-'}</td>
+                      <td className="px-3 py-2.5 text-xs text-gray-600 whitespace-nowrap">{formatDateTime(record.created_at)}</td>
+                      <td className="px-3 py-2.5 text-xs whitespace-nowrap">
+                        <QueueStatusBadge status={record.onedrive_status} />
+                      </td>
+                      <td className="px-3 py-2.5 whitespace-nowrap">
+                        <div className="flex items-center gap-1">
+                          <button onClick={() => handleDownload(record)} disabled={downloadingId === record.id} title="Download" className="p-1 text-blue-500 rounded disabled:opacity-40">
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                          </button>
+                          <button onClick={() => setReprocessTarget(record)} disabled={status === 'pending'} title={status === 'pending' ? 'Already queued' : 'Re-process'} className="p-1 text-emerald-600 rounded disabled:opacity-40">
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} totalItems={filteredData.length} itemsPerPage={ITEMS_PER_PAGE} />
+        </div>
+      )}
+
+      <ConfirmDialog isOpen={!!reprocessTarget} title="Re-process XER" variant="warning"
+        message={`Queue ${reprocessTarget?.file_path.split('/').pop() ?? 'this file'} for processing again? This also queues a P6 update run for ${reprocessTarget?.project_code ?? 'the project'}.`}
+        confirmLabel="Re-process" loading={reprocessing}
+        onConfirm={handleReprocess} onCancel={() => setReprocessTarget(null)} />
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react'
+import { schemaClient } from '@/lib/supabase'
+import type { StatusMeaning, StatusRegister } from '@/types/database'
+import { DEFAULT_STATUS_CODES, statusClass } from '@/utils/statusCodes'
+
+export interface StatusOption {
+  code: string
+  label: string | null
+  meaning: StatusMeaning
+}
+
+/**
+ * Status-code vocabulary for a register from dbp6_status_code, falling back to
+ * the built-in codes when the schema has none configured.
+ */
+export function useStatusCodes(schemaName: string, register: StatusRegister) {
+  const [codes, setCodes] = useState<StatusOption[]>(DEFAULT_STATUS_CODES[register])
+
+  useEffect(() => {
+    let cancelled = false
+    schemaClient(schemaName)
+      .from('dbp6_status_code')
+      .select('code, label, meaning')
+      .eq('register', register)
+      .order('sort_order', { ascending: true })
+      .order('code', { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        const rows = (data || []) as StatusOption[]
+        setCodes(!error && rows.length > 0 ? rows : DEFAULT_STATUS_CODES[register])
+      })
+    return () => { cancelled = true }
+  }, [schemaName, register])
+
+  const meaningOf = useCallback(
+    (code: string | null): StatusMeaning | null => codes.find(c => c.code === code)?.meaning ?? null,
+    [codes]
+  )
+
+  return {
+    codes,
+    meaningOf,
+    badgeClass: (code: string | null) => statusClass(meaningOf(code)),
+  }
+}
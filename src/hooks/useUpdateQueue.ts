@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback, useId, useRef } from 'react'
+import { supabase, schemaClient } from '@/lib/supabase'
+
+export interface QueueEntry {
+  id: number | string
+  requested_at: string | null
+  status: string | null
+  completed_at: string | null
+  execution_id: string | null
+}
+
+const ACTIVE_STATUSES = ['pending', 'running', 'processing']
+
+export const isQueueEntryActive = (entry: QueueEntry) =>
+  ACTIVE_STATUSES.includes((entry.status || '').toLowerCase())
+
+/** Formats the run time of a queue entry as "1h 02m", "3m 05s" or "12s" */
+export function formatElapsed(entry: QueueEntry, now: number): string {
+  if (!entry.requested_at) return '-'
+  const end = entry.completed_at ? new Date(entry.completed_at).getTime() : now
+  const secs = Math.max(0, Math.floor((end - new Date(entry.requested_at).getTime()) / 1000))
+  const h = Math.floor(secs / 3600)
+  const m = Math.floor((secs % 3600) / 60)
+  const s = secs % 60
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`
+  if (m > 0) return `${m}m ${String(s).padStart(2, '0')}s`
+  return `${s}s`
+}
+
+const sortEntries = (entries: QueueEntry[]) =>
+  [...entries].sort((a, b) => (b.requested_at ?? '').localeCompare(a.requested_at ?? ''))
+
+/**
+ * Streams p6_update_queue rows for a project via Supabase realtime.
+ * The initial list is fetched once; inserts, status changes and deletes arrive as they happen.
+ */
+export function useUpdateQueue(projectCode: string, schemaName: string, limit = 10) {
+  const [entries, setEntries] = useState<QueueEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  // Channel names must be unique per subscriber — the header and the form watch the same project
+  const channelId = useId()
+  // Project the hook is subscribed to; a refresh that resolves after a switch must not overwrite the new entries
+  const activeKey = useRef('')
+
+  const refresh = useCallback(async () => {
+    if (!projectCode) { setEntries([]); return }
+    const key = `${schemaName}:${projectCode}`
+    setLoading(true)
+    const { data, error: queryError } = await schemaClient(schemaName)
+      .from('p6_update_queue')
+      .select('id, requested_at, status, completed_at, execution_id')
+      .eq('project_code', projectCode)
+      .order('requested_at', { ascending: false })
+      .limit(limit)
+    if (activeKey.current !== key) return
+    setError(queryError?.message ?? null)
+    if (data) setEntries(data as QueueEntry[])
+    setLoading(false)
+  }, [projectCode, schemaName, limit])
+
+  useEffect(() => {
+    setEntries([])
+    setError(null)
+    setLoading(false)
+    if (!projectCode) return
+    activeKey.current = `${schemaName}:${projectCode}`
+    const channel = supabase
+      .channel(`p6_update_queue:${schemaName}:${projectCode}:${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: schemaName || 'public', table: 'p6_update_queue', filter: `project_code=eq.${projectCode}` },
+        payload => {
+          if (payload.eventType === 'DELETE') {
+            const oldId = (payload.old as Partial<QueueEntry>).id
+            setEntries(prev => prev.filter(e => e.id !== oldId))
+            return
+          }
+          const row = payload.new as QueueEntry
+          setEntries(prev => sortEntries([row, ...prev.filter(e => e.id !== row.id)]).slice(0, limit))
+        }
+      )
+      // Re-fetch once subscribed so nothing is missed between the first load and the subscription
+      .subscribe(status => { if (status === 'SUBSCRIBED') refresh() })
+    return () => {
+      activeKey.current = ''
+      supabase.removeChannel(channel)
+    }
+  }, [projectCode, schemaName, limit, refresh, channelId])
+
+  // Tick once a second while a run is in flight so elapsed times stay live
+  const hasActive = entries.some(isQueueEntryActive)
+  useEffect(() => {
+    if (!hasActive) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [hasActive])
+
+  return {
+    entries,
+    latest: entries[0] ?? null,
+    loading,
+    error,
+    now,
+    refresh,
+  }
+}
@@ -51,6 +51,7 @@ export interface Engineering {
   is_long_lead: boolean | null
   dgt_dbp6bd00projectdataid: string | null
   dgt_projectid: string | null
+  p6_task_code: string | null
 }
 
 export interface QaqcHse {
@@ -72,6 +73,9 @@ export interface QaqcHse {
   week_num: number | null
   dgt_projectid: string | null
   dgt_date_issued_to_contractor: string | null
+  dgt_rejectionreason: string | null
+  /** Engineering transmittal (dgt_transmittalref) the document was raised against */
+  dgt_linkedtransmittalref: string | null
 }
 
 export interface ActualResources {
@@ -90,6 +94,28 @@ export interface ActualResources {
   resource_code: string | null
 }
 
+export interface PlannedManpower {
+  id: number
+  dgt_dbp6bd00projectdataid: string
+  week_num: number
+  /** Discipline code, or PLAN_TOTAL_DISCIPLINE (-1) for a project-total row */
+  dgt_resourcediscipline: number
+  planned_count: number
+  /** Where the figure came from: 'csv', 'p6' or 'manual' */
+  source: string | null
+  created_at: string
+}
+
+/** Managed resource names (dbp6_resource_catalogue); Actual Resources rows pick their name, discipline and type from here */
+export interface ResourceCatalogueEntry {
+  id: number
+  resource_code: string
+  resource_name: string
+  dgt_resourcediscipline: number | null
+  dgt_resourcetype: number | null
+  created_at: string
+}
+
 export interface DynamicActualData {
   dgt_dbp6bd06dynamicactualdataid: string
   dgt_activityid: string | null
@@ -125,6 +151,24 @@ export interface AreaOfConcern {
   dgt_projectid: string | null
   status_description: string | null
   action_by: string | null
+  closed_at: string | null
+}
+
+export type AocActionPriority = 'low' | 'medium' | 'high'
+export type AocActionStatus = 'open' | 'in_progress' | 'done'
+
+/** Action item raised against an area of concern (dbp6_aoc_action) */
+export interface AocAction {
+  id: string
+  aoc_id: string
+  project_id: string | null
+  description: string
+  owner: string | null
+  due_date: string | null
+  priority: AocActionPriority
+  status: AocActionStatus
+  closed_at: string | null
+  created_at: string
 }
 
 export interface Payments {
@@ -189,6 +233,20 @@ export interface Subtrades {
   dgt_projectid: string | null
 }
 
+export type StatusRegister = 'engineering' | 'qaqc'
+
+export type StatusMeaning = 'approved' | 'rejected' | 'open' | 'closed'
+
+export interface StatusCode {
+  id: number
+  register: StatusRegister
+  code: string
+  label: string | null
+  meaning: StatusMeaning
+  sort_order: number | null
+  created_at: string
+}
+
 export interface Discipline {
   id: number
   created_at: string
@@ -258,6 +316,13 @@ export interface P6ActivityOutput {
   last_updated: string | null
 }
 
+/** Weekly copy of p6_activity_output_flat, one row per (project_code, week_num, activity_id) */
+export interface P6ActivityOutputSnapshot extends Omit<P6ActivityOutput, 'id'> {
+  id: number
+  week_num: number
+  snapshot_at: string
+}
+
 export interface P6ActivityUpdate {
   id: number
   project_code: string
@@ -291,6 +356,19 @@ export interface P6RunTrigger {
   status: string | null
 }
 
+export interface XerUpload {
+  id: number
+  project_code: string
+  schema_name: string | null
+  file_path: string
+  week_num: number | null
+  p6_project_code: string | null
+  data_date: string | null
+  onedrive_status: string | null
+  uploaded_by: string | null
+  created_at: string | null
+}
+
 export interface Photo {
   id: string
   dgt_dbp6bd00projectdataid: string | null
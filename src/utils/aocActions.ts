@@ -0,0 +1,34 @@
+import type { AocAction, AocActionPriority, AocActionStatus, AreaOfConcern } from '@/types/database'
+import { daysBetween } from '@/utils/dates'
+
+export const AOC_ACTION_PRIORITIES: AocActionPriority[] = ['high', 'medium', 'low']
+export const AOC_ACTION_STATUSES: AocActionStatus[] = ['open', 'in_progress', 'done']
+
+export const AOC_PRIORITY_LABELS: Record<AocActionPriority, string> = { high: 'High', medium: 'Medium', low: 'Low' }
+export const AOC_ACTION_STATUS_LABELS: Record<AocActionStatus, string> = { open: 'Open', in_progress: 'In progress', done: 'Done' }
+
+export const AOC_PRIORITY_CLASSES: Record<AocActionPriority, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-gray-100 text-gray-600',
+}
+
+export const AOC_ACTION_STATUS_CLASSES: Record<AocActionStatus, string> = {
+  open: 'bg-orange-100 text-orange-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  done: 'bg-green-100 text-green-800',
+}
+
+export const DEFAULT_ESCALATION_WEEKS = 4
+
+/** An action is overdue once its due date has passed and it is not done */
+export function isActionOverdue(action: AocAction, today: string): boolean {
+  return action.status !== 'done' && !!action.due_date && action.due_date.slice(0, 10) < today
+}
+
+/** Whole weeks an open AoC has been open, or null once it is closed */
+export function weeksOpen(aoc: AreaOfConcern, today: string): number | null {
+  if (aoc.status !== 'open') return null
+  const days = daysBetween(aoc.created_at, today)
+  return days === null ? null : Math.floor(days / 7)
+}
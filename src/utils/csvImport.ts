@@ -0,0 +1,172 @@
+import { schemaClient } from '@/lib/supabase'
+
+export type ImportRowKind = 'insert' | 'update' | 'unchanged'
+
+export interface FieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface PlannedImportRow<T> {
+  ref: string
+  /** CSV line number, counting the header as line 1 */
+  line: number
+  kind: ImportRowKind
+  changes: FieldChange[]
+  row: T
+}
+
+export interface ImportIssue {
+  line: number
+  ref: string | null
+  message: string
+}
+
+export interface ImportPlan<T> {
+  rows: PlannedImportRow<T>[]
+  dropped: ImportIssue[]
+  invalidDates: ImportIssue[]
+}
+
+interface PlanImportOptions<T> {
+  refField: keyof T & string
+  revisionField: keyof T & string
+  dateFields: (keyof T & string)[]
+  /** Fields compared against the existing record to build the diff */
+  compareFields: (keyof T & string)[]
+  parse: (raw: Record<string, string>) => T
+  existing: Partial<T>[]
+}
+
+const normalise = (value: unknown, isDate: boolean): string => {
+  if (value === null || value === undefined) return ''
+  const str = String(value)
+  return isDate ? str.slice(0, 10) : str
+}
+
+/**
+ * Works out what a register CSV import would do without writing anything: rows dropped for a
+ * missing ref or superseded by a higher revision of the same ref, dates that failed to parse,
+ * and a field-by-field diff of each remaining row against the existing record with that ref.
+ */
+export function planImport<T extends object>(csvRows: Record<string, string>[], opts: PlanImportOptions<T>): ImportPlan<T> {
+  const dropped: ImportIssue[] = []
+  const invalidDates: ImportIssue[] = []
+  const byRef = new Map<string, { line: number; row: T }>()
+  const revisionOf = (row: T) => ((row as Record<string, unknown>)[opts.revisionField] as number | null) ?? -Infinity
+
+  csvRows.forEach((raw, i) => {
+    const line = i + 2
+    const ref = raw[opts.refField]?.trim()
+    if (!ref) {
+      dropped.push({ line, ref: null, message: `No ${opts.refField}` })
+      return
+    }
+    const row = opts.parse(raw)
+    const values = row as Record<string, unknown>
+    for (const field of opts.dateFields) {
+      if (raw[field]?.trim() && values[field] == null) {
+        invalidDates.push({ line, ref, message: `${field} "${raw[field].trim()}" is not a date and will be blank` })
+      }
+    }
+
+    // Keep the highest revision per ref, as the register holds one current row per ref
+    const kept = byRef.get(ref)
+    if (!kept) {
+      byRef.set(ref, { line, row })
+    } else if (revisionOf(row) > revisionOf(kept.row)) {
+      dropped.push({ line: kept.line, ref, message: `Superseded by revision ${values[opts.revisionField] ?? '-'} on line ${line}` })
+      byRef.set(ref, { line, row })
+    } else {
+      dropped.push({ line, ref, message: `Superseded by revision ${(kept.row as Record<string, unknown>)[opts.revisionField] ?? '-'} on line ${kept.line}` })
+    }
+  })
+
+  const existingByRef = new Map(opts.existing.map(e => [String((e as Record<string, unknown>)[opts.refField] ?? ''), e as Record<string, unknown>]))
+  const rows = [...byRef.entries()].map(([ref, { line, row }]): PlannedImportRow<T> => {
+    const current = existingByRef.get(ref)
+    if (!current) return { ref, line, kind: 'insert', changes: [], row }
+    const values = row as Record<string, unknown>
+    const changes = opts.compareFields
+      .filter(field => {
+        const isDate = opts.dateFields.includes(field)
+        return normalise(current[field], isDate) !== normalise(values[field], isDate)
+      })
+      .map(field => ({ field, from: current[field] ?? null, to: values[field] ?? null }))
+    return { ref, line, kind: changes.length ? 'update' : 'unchanged', changes, row }
+  })
+
+  return {
+    rows: rows.sort((a, b) => a.line - b.line),
+    dropped: dropped.sort((a, b) => a.line - b.line),
+    invalidDates,
+  }
+}
+
+interface ApplyImportOptions<T> {
+  schemaName: string
+  projectId: string
+  currentTable: string
+  historyTable: string
+  refField: keyof T & string
+  revisionField: keyof T & string
+  rows: T[]
+}
+
+// Keeps `.in()` filters well inside URL length limits
+const REF_CHUNK = 200
+
+/**
+ * Writes imported rows to a register's _current table and syncs them to _history as one unit.
+ * The prior _current rows are snapshotted first; if the history sync fails they are restored and
+ * rows the import created are deleted, so the two tables never drift. Returns an error message,
+ * or null on success.
+ */
+export async function applyRegisterImport<T extends object>(opts: ApplyImportOptions<T>): Promise<string | null> {
+  const db = schemaClient(opts.schemaName)
+  const refField: string = opts.refField
+  const refs = opts.rows.map(r => String((r as Record<string, unknown>)[refField]))
+
+  const snapshot: Record<string, unknown>[] = []
+  for (let i = 0; i < refs.length; i += REF_CHUNK) {
+    const { data, error } = await db
+      .from(opts.currentTable)
+      .select('*')
+      .eq('dgt_dbp6bd00projectdataid', opts.projectId)
+      .in(refField, refs.slice(i, i + REF_CHUNK))
+    if (error) return `Import failed: ${error.message}`
+    snapshot.push(...((data || []) as Record<string, unknown>[]))
+  }
+
+  const { error: upsertErr } = await db
+    .from(opts.currentTable)
+    .upsert(opts.rows as never[], { onConflict: opts.refField })
+  if (upsertErr) return `Import failed: ${upsertErr.message}`
+
+  const { error: histErr } = await db
+    .from(opts.historyTable)
+    .upsert(opts.rows.map(r => ({ ...r })) as never[], { onConflict: `${opts.refField},${opts.revisionField}` })
+  if (!histErr) return null
+
+  // Compensate: put back what _current held before and remove rows this import added
+  const existingRefs = new Set(snapshot.map(r => String(r[opts.refField])))
+  const insertedRefs = refs.filter(ref => !existingRefs.has(ref))
+  const restoreErrors: string[] = []
+  if (snapshot.length > 0) {
+    const { error } = await db.from(opts.currentTable).upsert(snapshot as never[], { onConflict: opts.refField })
+    if (error) restoreErrors.push(error.message)
+  }
+  for (let i = 0; i < insertedRefs.length; i += REF_CHUNK) {
+    const { error } = await db
+      .from(opts.currentTable)
+      .delete()
+      .eq('dgt_dbp6bd00projectdataid', opts.projectId)
+      .in(refField, insertedRefs.slice(i, i + REF_CHUNK))
+    if (error) restoreErrors.push(error.message)
+  }
+
+  return restoreErrors.length === 0
+    ? `Import rolled back, history sync failed: ${histErr.message}`
+    : `History sync failed (${histErr.message}) and the register could not be fully restored: ${restoreErrors.join('; ')}. Re-run the import once the history table is reachable.`
+}
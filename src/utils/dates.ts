@@ -0,0 +1,25 @@
+/** Whole days between two dates, or null when either is missing */
+export function daysBetween(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null
+  const a = Date.parse(from)
+  const b = Date.parse(to)
+  if (isNaN(a) || isNaN(b)) return null
+  return Math.round((b - a) / 86_400_000)
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of a stored date or timestamp, or '' when missing.
+ * Sliced rather than parsed so a UTC timestamp keeps its day in every browser timezone.
+ */
+export function toDay(d: string | null | undefined): string {
+  return d ? d.slice(0, 10) : ''
+}
+
+/** ISO date (YYYY-MM-DD) of the Monday of the week containing `date` */
+export function weekCommencing(date: string | null): string | null {
+  if (!date) return null
+  const d = new Date(date)
+  if (isNaN(d.getTime())) return null
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7))
+  return d.toISOString().slice(0, 10)
+}
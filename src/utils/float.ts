@@ -0,0 +1,24 @@
+export type FloatBand = 'critical' | 'near' | 'normal' | 'high'
+
+export const FLOAT_BAND_LABELS: Record<FloatBand, string> = {
+  critical: 'Critical (≤ 0)',
+  near: 'Near-critical',
+  normal: 'Normal',
+  high: 'High float',
+}
+
+/** Parses a P6 float value ("-3", "12.5", "12d") into days, or null if blank */
+export function parseFloatDays(value: string | null | undefined): number | null {
+  if (value == null || value.trim() === '') return null
+  const n = parseFloat(value)
+  return isNaN(n) ? null : n
+}
+
+/** Classifies total float: ≤ 0 critical, up to `nearThreshold` near-critical, above `highThreshold` high */
+export function floatBand(days: number | null, nearThreshold: number, highThreshold: number): FloatBand | null {
+  if (days == null) return null
+  if (days <= 0) return 'critical'
+  if (days <= nearThreshold) return 'near'
+  if (days > highThreshold) return 'high'
+  return 'normal'
+}
@@ -0,0 +1,38 @@
+import type { Engineering } from '@/types/database'
+import { daysBetween } from '@/utils/dates'
+
+export type Rag = 'red' | 'amber' | 'green' | 'complete'
+
+export const RAG_LABELS: Record<Rag, string> = {
+  red: 'Red',
+  amber: 'Amber',
+  green: 'Green',
+  complete: 'Approved',
+}
+
+export interface LongLeadAssessment {
+  rag: Rag
+  daysRemaining: number | null
+  /** Review days still needed before approval, from the remaining cycles */
+  daysNeeded: number
+}
+
+/**
+ * Compares the days left to planned approval with the review time still needed.
+ * Awaiting return needs what is left of the current cycle; not yet submitted or
+ * returned for resubmission needs a full cycle. Red when the time left is short of that,
+ * amber when there is less than one extra cycle of slack. Approved items need no
+ * further review cycles.
+ */
+export function assessLongLead(row: Engineering, cycleDays: number, today: string, approved: boolean): LongLeadAssessment {
+  if (approved) return { rag: 'complete', daysRemaining: null, daysNeeded: 0 }
+  const awaitingReturn = !!row.dgt_actualsubmissiondate && !row.dgt_actualreturndate
+  const daysNeeded = awaitingReturn
+    ? Math.max(0, cycleDays - (daysBetween(row.dgt_actualsubmissiondate, today) ?? 0))
+    : cycleDays
+  const daysRemaining = daysBetween(today, row.dgt_plannedapprovaldate)
+  if (daysRemaining == null) return { rag: 'amber', daysRemaining, daysNeeded }
+  if (daysRemaining < daysNeeded) return { rag: 'red', daysRemaining, daysNeeded }
+  if (daysRemaining < daysNeeded + cycleDays) return { rag: 'amber', daysRemaining, daysNeeded }
+  return { rag: 'green', daysRemaining, daysNeeded }
+}
@@ -0,0 +1,84 @@
+import type { Discipline } from '@/types/database'
+
+/**
+ * Discipline stored on project-total plan rows. A real value rather than NULL so the
+ * (project, week, discipline) unique key matches on re-import and totals are replaced, not duplicated.
+ */
+export const PLAN_TOTAL_DISCIPLINE = -1
+
+export const isPlanTotal = (discipline: number) => discipline === PLAN_TOTAL_DISCIPLINE
+
+export interface PlannedEntry {
+  week_num: number
+  dgt_resourcediscipline: number
+  planned_count: number
+}
+
+export interface ParsedPlan {
+  entries: PlannedEntry[]
+  /** 'p6' for a time-phased export with one column per week, otherwise 'csv' */
+  source: 'csv' | 'p6'
+  skipped: string[]
+}
+
+// Week columns in a time-phased export: "12", "W12", "Wk 12", "Week 12"
+const WEEK_HEADER = /^(?:w|wk|week)?\s*(\d+)$/i
+
+const DISCIPLINE_HEADERS = ['dgt_resourcediscipline', 'discipline', 'discipline_code', 'resource discipline', 'resource']
+
+/** Resolves a discipline cell by code, name or abbreviation; blank means the project total */
+function resolveDiscipline(value: string | undefined, disciplines: Discipline[]): number | undefined {
+  const v = value?.trim()
+  if (!v) return PLAN_TOTAL_DISCIPLINE
+  const code = Number(v)
+  if (!isNaN(code) && disciplines.some(d => d.discipline_code === code)) return code
+  const lower = v.toLowerCase()
+  return disciplines.find(d => d.discipline_name?.toLowerCase() === lower || d.abbreviation?.toLowerCase() === lower)?.discipline_code ?? undefined
+}
+
+/**
+ * Parses a planned manpower CSV. Accepts either one row per week and discipline
+ * (week_num, discipline, planned_count) or a P6 resource loading export with a
+ * discipline column and one column per week.
+ */
+export function parsePlannedManpower(rows: Record<string, string>[], disciplines: Discipline[]): ParsedPlan {
+  const headers = Object.keys(rows[0] ?? {})
+  const disciplineHeader = headers.find(h => DISCIPLINE_HEADERS.includes(h.trim().toLowerCase()))
+  const weekHeaders = headers.filter(h => WEEK_HEADER.test(h.trim()))
+  const wide = !headers.includes('week_num') && weekHeaders.length > 0
+  const entries = new Map<string, PlannedEntry>()
+  const skipped: string[] = []
+
+  const add = (week: number, discipline: number, count: number) => {
+    // Several rows for one discipline and week (e.g. multiple P6 resources) are summed
+    const key = `${week}|${discipline}`
+    const existing = entries.get(key)
+    if (existing) existing.planned_count += count
+    else entries.set(key, { week_num: week, dgt_resourcediscipline: discipline, planned_count: count })
+  }
+
+  rows.forEach((row, i) => {
+    const line = i + 2
+    const discipline = resolveDiscipline(disciplineHeader ? row[disciplineHeader] : undefined, disciplines)
+    if (discipline === undefined) {
+      skipped.push(`Line ${line}: unknown discipline "${row[disciplineHeader!]}"`)
+      return
+    }
+    if (wide) {
+      for (const h of weekHeaders) {
+        const count = Number(row[h])
+        if (row[h]?.trim() && !isNaN(count)) add(Number(h.trim().match(WEEK_HEADER)![1]), discipline, count)
+      }
+      return
+    }
+    const week = parseInt(row.week_num)
+    const count = Number(row.planned_count)
+    if (isNaN(week) || !row.planned_count?.trim() || isNaN(count)) {
+      skipped.push(`Line ${line}: week_num and planned_count must be numbers`)
+      return
+    }
+    add(week, discipline, count)
+  })
+
+  return { entries: [...entries.values()], source: wide ? 'p6' : 'csv', skipped }
+}
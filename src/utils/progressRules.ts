@@ -0,0 +1,106 @@
+import type { P6ActivityUpdate } from '@/types/database'
+import { toDay } from '@/utils/dates'
+
+export type RuleSeverity = 'error' | 'warning'
+
+export type ProgressRuleId =
+  | 'actual_after_data_date'
+  | 'completed_with_remaining'
+  | 'in_progress_without_start'
+  | 'progress_backwards'
+  | 'start_before_project_start'
+
+export interface ProgressRuleContext {
+  /** Project data date — actuals may not be later than this */
+  dataDate: string | null
+  projectStartDate: string | null
+  /** % complete (0–100) per task_code from the last P6 run */
+  previousPct: Map<string, number>
+}
+
+export interface ProgressViolation {
+  taskCode: string
+  taskName: string | null
+  rule: ProgressRuleId
+  severity: RuleSeverity
+  message: string
+}
+
+interface ProgressRule {
+  id: ProgressRuleId
+  label: string
+  severity: RuleSeverity
+  check: (row: P6ActivityUpdate, ctx: ProgressRuleContext) => string | null
+}
+
+export const PROGRESS_RULES: ProgressRule[] = [
+  {
+    id: 'actual_after_data_date',
+    label: 'Actual date after data date',
+    severity: 'error',
+    check: (row, ctx) => {
+      const dataDay = toDay(row.data_date ?? ctx.dataDate)
+      if (!dataDay) return null
+      const late = [
+        toDay(row.act_start_date) > dataDay ? `actual start ${toDay(row.act_start_date)}` : null,
+        toDay(row.act_end_date) > dataDay ? `actual finish ${toDay(row.act_end_date)}` : null,
+      ].filter(Boolean)
+      return late.length ? `${late.join(' and ')} after data date ${dataDay}` : null
+    },
+  },
+  {
+    id: 'completed_with_remaining',
+    label: 'Completed with remaining duration',
+    severity: 'error',
+    check: row =>
+      row.status_code === 'Completed' && (row.remain_drtn_hr_cnt ?? 0) > 0
+        ? `Completed but ${row.remain_drtn_hr_cnt} remaining hours`
+        : null,
+  },
+  {
+    id: 'in_progress_without_start',
+    label: 'In progress without actual start',
+    severity: 'error',
+    check: row =>
+      (row.status_code === 'In Progress' || row.status_code === 'Completed') && !row.act_start_date
+        ? `${row.status_code} but no actual start`
+        : null,
+  },
+  {
+    id: 'progress_backwards',
+    label: 'Progress went backwards',
+    severity: 'error',
+    check: (row, ctx) => {
+      if (row.update_type === 'deprogress' || row.complete_pct == null) return null
+      const previous = ctx.previousPct.get(row.task_code)
+      return previous != null && row.complete_pct < previous
+        ? `% complete fell from ${previous} to ${row.complete_pct} — set update type to "deprogress" if intended`
+        : null
+    },
+  },
+  {
+    id: 'start_before_project_start',
+    label: 'Actual start before project start',
+    severity: 'warning',
+    check: (row, ctx) => {
+      const projectStart = toDay(ctx.projectStartDate)
+      const start = toDay(row.act_start_date)
+      return projectStart && start && start < projectStart
+        ? `Actual start ${start} before project start ${projectStart}`
+        : null
+    },
+  },
+]
+
+/** Runs every progress rule over the rows marked for update, skipping rows flagged for deletion */
+export function validateProgress(rows: P6ActivityUpdate[], ctx: ProgressRuleContext): ProgressViolation[] {
+  const violations: ProgressViolation[] = []
+  for (const row of rows) {
+    if (row.mrk_uptd !== 1 || row.delete_record_flag === 1) continue
+    for (const rule of PROGRESS_RULES) {
+      const message = rule.check(row, ctx)
+      if (message) violations.push({ taskCode: row.task_code, taskName: row.task_name, rule: rule.id, severity: rule.severity, message })
+    }
+  }
+  return violations
+}
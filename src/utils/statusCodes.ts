@@ -0,0 +1,46 @@
+import type { StatusCode, StatusMeaning, StatusRegister } from '@/types/database'
+
+export const STATUS_MEANINGS: StatusMeaning[] = ['approved', 'rejected', 'open', 'closed']
+
+export const STATUS_MEANING_LABELS: Record<StatusMeaning, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  open: 'Open',
+  closed: 'Closed',
+}
+
+export const STATUS_MEANING_CLASSES: Record<StatusMeaning, string> = {
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-700',
+  open: 'bg-blue-100 text-blue-800',
+  closed: 'bg-gray-200 text-gray-700',
+}
+
+export const STATUS_REGISTER_LABELS: Record<StatusRegister, string> = {
+  engineering: 'Engineering',
+  qaqc: 'QAQC / HSE',
+}
+
+type DefaultCode = Pick<StatusCode, 'code' | 'label' | 'meaning'>
+
+// Used until a schema has its own codes in dbp6_status_code
+export const DEFAULT_STATUS_CODES: Record<StatusRegister, DefaultCode[]> = {
+  engineering: [
+    { code: 'A', label: 'Approved', meaning: 'approved' },
+    { code: 'B', label: 'Approved with comments', meaning: 'approved' },
+    { code: 'C', label: 'Revise and resubmit', meaning: 'rejected' },
+    { code: 'D', label: 'Rejected', meaning: 'rejected' },
+    { code: 'E', label: 'For information', meaning: 'closed' },
+    { code: 'UR', label: 'Under review', meaning: 'open' },
+  ],
+  qaqc: [
+    { code: 'OPN', label: 'Open', meaning: 'open' },
+    { code: 'CLS', label: 'Closed', meaning: 'closed' },
+    { code: 'REJ', label: 'Rejected', meaning: 'rejected' },
+  ],
+}
+
+/** Badge classes for a status code, coloured by its meaning */
+export function statusClass(meaning: StatusMeaning | null | undefined): string {
+  return meaning ? STATUS_MEANING_CLASSES[meaning] : 'bg-gray-100 text-gray-800'
+}
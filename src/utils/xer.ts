@@ -0,0 +1,276 @@
+import type { P6ActivityUpdate } from '@/types/database'
+
+/** A single %T table from an XER file, with rows keyed by its %F field names */
+export interface XerTable {
+  name: string
+  fields: string[]
+  rows: Record<string, string>[]
+}
+
+/** Parsed XER file: the ERMHDR header values plus every table by name */
+export interface XerDocument {
+  header: string[]
+  tables: Record<string, XerTable>
+}
+
+/** Headline figures shown before an XER is uploaded */
+export interface XerSummary {
+  projectCodes: string[]
+  projectShortName: string | null
+  dataDate: string | null
+  activityCount: number
+  wbsCount: number
+}
+
+/** Parses XER text (tab-delimited %T/%F/%R records) into tables */
+export function parseXerText(text: string): XerDocument {
+  const doc: XerDocument = { header: [], tables: {} }
+  let current: XerTable | null = null
+  for (const rawLine of text.split(/\r?\n/)) {
+    if (!rawLine) continue
+    const cols = rawLine.split('\t')
+    switch (cols[0]) {
+      case 'ERMHDR':
+        doc.header = cols.slice(1)
+        break
+      case '%T':
+        current = { name: cols[1]?.trim() ?? '', fields: [], rows: [] }
+        doc.tables[current.name] = current
+        break
+      case '%F':
+        if (!current) throw new Error('Field list (%F) found before any table (%T)')
+        current.fields = cols.slice(1).map(f => f.trim())
+        break
+      case '%R': {
+        if (!current) throw new Error('Row (%R) found before any table (%T)')
+        const row: Record<string, string> = {}
+        current.fields.forEach((f, i) => { row[f] = cols[i + 1] ?? '' })
+        current.rows.push(row)
+        break
+      }
+      case '%E':
+        current = null
+        break
+    }
+  }
+  if (!doc.header.length && Object.keys(doc.tables).length === 0) {
+    throw new Error('Not a valid XER file (no ERMHDR header or tables)')
+  }
+  return doc
+}
+
+/** Reads a File (or a downloaded Blob) and returns the parsed XER document */
+export function parseXerFile(file: Blob): Promise<XerDocument> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = e => {
+      try { resolve(parseXerText(e.target?.result as string)) }
+      catch (err) { reject(err) }
+    }
+    reader.onerror = () => reject(new Error('Failed to read file'))
+    // P6 writes XER files in the Windows ANSI code page
+    reader.readAsText(file, 'windows-1252')
+  })
+}
+
+/** Returns the rows of a table, or an empty array if the file doesn't contain it */
+export function xerRows(doc: XerDocument, table: string): Record<string, string>[] {
+  return doc.tables[table]?.rows ?? []
+}
+
+/** Converts an XER date ("2024-01-15 08:00") to YYYY-MM-DD, or null if blank */
+export function xerDateToIso(value: string | undefined): string | null {
+  if (!value) return null
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})/)
+  return match ? match[1] : null
+}
+
+/** Summarises the PROJECT, PROJWBS and TASK tables of a parsed XER */
+export function summarizeXer(doc: XerDocument): XerSummary {
+  const projects = xerRows(doc, 'PROJECT')
+  const first = projects[0]
+  return {
+    projectCodes: projects.map(p => p.proj_short_name).filter(Boolean),
+    projectShortName: first?.proj_short_name || null,
+    // last_recalc_date is the schedule's data date; older exports only carry next_data_date
+    dataDate: xerDateToIso(first?.last_recalc_date) ?? xerDateToIso(first?.next_data_date),
+    activityCount: xerRows(doc, 'TASK').length,
+    // The project's own root node is stored in PROJWBS too — don't count it as a WBS element
+    wbsCount: xerRows(doc, 'PROJWBS').filter(w => w.proj_node_flag !== 'Y').length,
+  }
+}
+
+/** An activity update row built from the XER TASK table, ready to upsert into p6_activity_updates */
+export type XerActivityRow = Omit<P6ActivityUpdate, 'id' | 'submitted_at'>
+
+const TASK_STATUS: Record<string, string> = {
+  TK_NotStart: 'Not Started',
+  TK_Active: 'In Progress',
+  TK_Complete: 'Completed',
+}
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value == null || value.trim() === '') return null
+  const n = parseFloat(value)
+  return isNaN(n) ? null : n
+}
+
+/** Percent complete for a TASK row, following its complete_pct_type */
+function taskCompletePct(task: Record<string, string>): number | null {
+  if (task.complete_pct_type === 'CP_Drtn') {
+    const target = toNumber(task.target_drtn_hr_cnt)
+    const remain = toNumber(task.remain_drtn_hr_cnt)
+    if (task.status_code === 'TK_Complete') return 100
+    if (!target || remain == null) return task.status_code === 'TK_NotStart' ? 0 : null
+    return Math.max(0, Math.min(100, Math.round((1 - remain / target) * 10000) / 100))
+  }
+  return toNumber(task.phys_complete_pct)
+}
+
+/** TASK rows that belong to `p6ProjectCode`, or every task when no code is given */
+function projectTasks(doc: XerDocument, p6ProjectCode?: string | null): Record<string, string>[] {
+  const projId = p6ProjectCode
+    ? xerRows(doc, 'PROJECT').find(p => p.proj_short_name === p6ProjectCode)?.proj_id
+    : undefined
+  return xerRows(doc, 'TASK').filter(t => (!projId || t.proj_id === projId) && t.task_code)
+}
+
+/**
+ * Maps the TASK table onto p6_activity_updates rows for `projectCode`.
+ * When the file holds several projects, only tasks of `p6ProjectCode` are taken.
+ */
+export function xerTasksToActivityUpdates(
+  doc: XerDocument,
+  projectCode: string,
+  p6ProjectCode?: string | null
+): XerActivityRow[] {
+  const dataDate = summarizeXer(doc).dataDate
+  return projectTasks(doc, p6ProjectCode)
+    .map(t => ({
+      project_code: projectCode,
+      task_code: t.task_code,
+      status_code: TASK_STATUS[t.status_code] ?? (t.status_code || null),
+      wbs_id: t.wbs_id || null,
+      task_name: t.task_name || null,
+      act_start_date: xerDateToIso(t.act_start_date),
+      act_end_date: xerDateToIso(t.act_end_date),
+      complete_pct: taskCompletePct(t),
+      remain_drtn_hr_cnt: toNumber(t.remain_drtn_hr_cnt),
+      mrk_uptd: 0,
+      delete_record_flag: 0,
+      data_date: dataDate,
+      update_type: 'progress',
+    }))
+}
+
+const TASK_STATUS_CODE: Record<string, string> = Object.fromEntries(
+  Object.entries(TASK_STATUS).map(([code, label]) => [label, code])
+)
+
+const XER_VERSION = '19.12'
+
+/** Escapes a value for an XER cell — tabs and line breaks would split the record */
+function xerCell(val: string | number | null | undefined): string {
+  if (val === null || val === undefined) return ''
+  return String(val).replace(/[\t\r\n]+/g, ' ')
+}
+
+/** Formats YYYY-MM-DD (or an ISO timestamp) as an XER date, "2024-01-15 00:00" */
+export function isoToXerDate(value: string | null): string {
+  if (!value) return ''
+  const day = value.slice(0, 10)
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) ? `${day} 00:00` : ''
+}
+
+/** Serialises tables to XER text, with an ERMHDR line and the closing %E */
+export function buildXerText(tables: XerTable[], exportDate = new Date()): string {
+  const lines = [
+    ['ERMHDR', XER_VERSION, exportDate.toISOString().slice(0, 10), 'Project', 'admin', 'admin', 'dbxDatabaseNoName', 'Project Management', 'USD'].join('\t'),
+  ]
+  for (const table of tables) {
+    lines.push(['%T', table.name].join('\t'))
+    lines.push(['%F', ...table.fields].join('\t'))
+    for (const row of table.rows) {
+      lines.push(['%R', ...table.fields.map(f => xerCell(row[f]))].join('\t'))
+    }
+  }
+  lines.push('%E')
+  return lines.join('\r\n') + '\r\n'
+}
+
+// Code points of bytes 0x80–0x9F in windows-1252; the rest of the code page matches Latin-1
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178'
+
+/** Encodes text in windows-1252, the code page P6 reads XER files in; unmappable characters become "?" */
+export function encodeWindows1252(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    const high = WINDOWS_1252_HIGH.indexOf(text[i])
+    bytes[i] = code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : high >= 0 ? 0x80 + high : 0x3f
+  }
+  return bytes
+}
+
+/** Result of a delta export; unmatched lists the progressed task codes that are not in the source XER */
+export interface XerDeltaExport {
+  text: string
+  exported: number
+  unmatched: string[]
+}
+
+// Keys P6 matches an existing activity on, plus the progress fields it applies during an update import
+const TASK_DELTA_FIELDS = [
+  'task_id', 'proj_id', 'wbs_id', 'clndr_id', 'task_code', 'status_code', 'act_start_date', 'act_end_date',
+  'complete_pct_type', 'phys_complete_pct', 'remain_drtn_hr_cnt',
+]
+
+/**
+ * Builds a PROJECT + TASK XER fragment from the progressed (mrk_uptd = 1) activity updates.
+ * Keys, WBS, calendar and percent-complete type come from the schedule's own XER (`source`), so P6 updates the
+ * existing activities as they are; activities missing from it are left out and reported as unmatched.
+ */
+export function activityUpdatesToXer(
+  rows: P6ActivityUpdate[],
+  source: XerDocument,
+  p6ProjectCode?: string | null,
+  exportDate = new Date()
+): XerDeltaExport {
+  const sourceTasks = new Map(projectTasks(source, p6ProjectCode).map(t => [t.task_code, t]))
+  const progressed = rows.filter(r => r.mrk_uptd === 1 && r.delete_record_flag !== 1)
+  const task: XerTable = {
+    name: 'TASK',
+    fields: TASK_DELTA_FIELDS,
+    rows: progressed
+      .filter(r => sourceTasks.has(r.task_code))
+      .map(r => {
+        const original = sourceTasks.get(r.task_code)!
+        return {
+          task_id: original.task_id,
+          proj_id: original.proj_id,
+          wbs_id: original.wbs_id,
+          clndr_id: original.clndr_id ?? '',
+          task_code: xerCell(r.task_code),
+          status_code: TASK_STATUS_CODE[r.status_code ?? ''] ?? xerCell(r.status_code),
+          act_start_date: isoToXerDate(r.act_start_date),
+          act_end_date: isoToXerDate(r.act_end_date),
+          complete_pct_type: original.complete_pct_type ?? '',
+          // Only physical % is entered directly; duration and units % follow from the remaining duration and units
+          phys_complete_pct: original.complete_pct_type === 'CP_Phys' ? xerCell(r.complete_pct) : original.phys_complete_pct ?? '',
+          remain_drtn_hr_cnt: r.remain_drtn_hr_cnt != null ? xerCell(r.remain_drtn_hr_cnt) : original.remain_drtn_hr_cnt ?? '',
+        }
+      }),
+  }
+  const projIds = new Set(task.rows.map(t => t.proj_id))
+  const project: XerTable = {
+    name: 'PROJECT',
+    fields: source.tables.PROJECT?.fields ?? [],
+    rows: xerRows(source, 'PROJECT').filter(p => projIds.has(p.proj_id)),
+  }
+  return {
+    text: buildXerText(project.rows.length ? [project, task] : [task], exportDate),
+    exported: task.rows.length,
+    unmatched: progressed.filter(r => !sourceTasks.has(r.task_code)).map(r => r.task_code),
+  }
+}
@@ -0,0 +1,37 @@
+-- Weekly snapshots of p6_activity_output_flat, written by the Activity Output form on load.
+-- The float analysis compares the current output with the latest earlier week.
+-- Run in every project schema (set search_path first).
+
+CREATE TABLE IF NOT EXISTS p6_activity_output_history (
+  id                    bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_code          text NOT NULL,
+  week_num              integer NOT NULL,
+  activity_id           text NOT NULL,
+  activity_name         text,
+  status                text,
+  activity_type         text,
+  wbs_code              text,
+  wbs_name              text,
+  duration_pct_complete text,
+  percent_complete      text,
+  actual_start          text,
+  actual_finish         text,
+  planned_start         text,
+  planned_finish        text,
+  early_start           text,
+  early_finish          text,
+  late_start            text,
+  late_finish           text,
+  remaining_duration    text,
+  planned_duration      text,
+  total_float           text,
+  free_float            text,
+  last_updated          text,
+  snapshot_at           timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_code, week_num, activity_id)
+);
+
+-- The app signs in with the anon key only, as for the existing register tables
+ALTER TABLE p6_activity_output_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "App access" ON p6_activity_output_history
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,19 @@
+-- Planned headcount per project week, by discipline, for the Actual Resources "Plan vs Actual" view.
+-- Project totals use discipline -1 (PLAN_TOTAL_DISCIPLINE in src/utils/manpower.ts) so the unique key
+-- below matches them on re-import; the upsert in PlannedManpowerComparison relies on that key.
+-- Run in every project schema (set search_path first).
+
+CREATE TABLE IF NOT EXISTS dbp6_planned_manpower (
+  id                         bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  dgt_dbp6bd00projectdataid  uuid NOT NULL REFERENCES dbp6_0000_projectdata (dgt_dbp6bd00projectdataid) ON DELETE CASCADE,
+  week_num                   integer NOT NULL,
+  dgt_resourcediscipline     integer NOT NULL DEFAULT -1,
+  planned_count              numeric NOT NULL,
+  source                     text,
+  created_at                 timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (dgt_dbp6bd00projectdataid, week_num, dgt_resourcediscipline)
+);
+
+ALTER TABLE dbp6_planned_manpower ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "App access" ON dbp6_planned_manpower
+  FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,4 @@
+-- Who uploaded each XER; the upload panel asks for it and the XER Uploads list shows and searches it.
+-- xer_uploads lives in the public schema.
+
+ALTER TABLE public.xer_uploads ADD COLUMN IF NOT EXISTS uploaded_by text;
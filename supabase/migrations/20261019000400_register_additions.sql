@@ -0,0 +1,66 @@
+-- Tables and columns used by the status-code vocabulary, long-lead linking, QAQC rejections,
+-- the resource catalogue, AoC action items and the live update queue.
+-- Run in every project schema (set search_path first); the app reaches them through schemaClient().
+
+-- Status codes per register (Reference Data -> Status Codes); useStatusCodes falls back to built-in codes when empty
+CREATE TABLE IF NOT EXISTS dbp6_status_code (
+  id          bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  register    text NOT NULL CHECK (register IN ('engineering', 'qaqc')),
+  code        text NOT NULL,
+  label       text,
+  meaning     text NOT NULL CHECK (meaning IN ('approved', 'rejected', 'open', 'closed')),
+  sort_order  integer,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (register, code)
+);
+
+-- Long-lead items link a transmittal to the P6 activity that tracks it
+ALTER TABLE dbp6_000401_engineering_current ADD COLUMN IF NOT EXISTS p6_task_code text;
+ALTER TABLE dbp6_000401_engineering_history ADD COLUMN IF NOT EXISTS p6_task_code text;
+
+-- QAQC rejection workflow and the transmittal a document was raised against
+ALTER TABLE dbp6_000402_qaqc_hse_current ADD COLUMN IF NOT EXISTS dgt_rejectionreason text;
+ALTER TABLE dbp6_000402_qaqc_hse_current ADD COLUMN IF NOT EXISTS dgt_linkedtransmittalref text;
+ALTER TABLE dbp6_000402_qaqc_hse_history ADD COLUMN IF NOT EXISTS dgt_rejectionreason text;
+ALTER TABLE dbp6_000402_qaqc_hse_history ADD COLUMN IF NOT EXISTS dgt_linkedtransmittalref text;
+
+-- Managed resource names; Actual Resources rows take name, discipline and type from here
+CREATE TABLE IF NOT EXISTS dbp6_resource_catalogue (
+  id                      bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  resource_code           text NOT NULL UNIQUE,
+  resource_name           text NOT NULL,
+  dgt_resourcediscipline  integer,
+  dgt_resourcetype        integer,
+  created_at              timestamptz NOT NULL DEFAULT now()
+);
+
+-- When an AoC was closed; cleared when it is reopened
+ALTER TABLE dbp6_areas_of_concern ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+-- Action items of an AoC; the cascade backs up the form, which deletes them before the AoC
+CREATE TABLE IF NOT EXISTS dbp6_aoc_action (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  aoc_id       uuid NOT NULL REFERENCES dbp6_areas_of_concern (id) ON DELETE CASCADE,
+  project_id   uuid,
+  description  text NOT NULL,
+  owner        text,
+  due_date     date,
+  priority     text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  status       text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'done')),
+  closed_at    timestamptz,
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS dbp6_aoc_action_aoc_id_idx ON dbp6_aoc_action (aoc_id);
+
+-- The app signs in with the anon key only, as for the existing register tables
+ALTER TABLE dbp6_status_code ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "App access" ON dbp6_status_code FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+ALTER TABLE dbp6_resource_catalogue ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "App access" ON dbp6_resource_catalogue FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+ALTER TABLE dbp6_aoc_action ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "App access" ON dbp6_aoc_action FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+
+-- Live update queue (useUpdateQueue): realtime only delivers rows the subscriber may SELECT
+ALTER TABLE p6_update_queue ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "App access" ON p6_update_queue FOR ALL TO anon, authenticated USING (true) WITH CHECK (true);
+ALTER PUBLICATION supabase_realtime ADD TABLE p6_update_queue;